@@ -207,9 +207,8 @@ function createXzDecompressionStream(xzData: Uint8Array): ReadableStream<Uint8Ar
     },
   });
 
-  // Apply XZ decompression via TransformStream
-  const xzTransform = new XzReadableStream({} as any);
-  return inputStream.pipeThrough(xzTransform as any);
+  // XZ decompression reads from the compressed stream
+  return new XzReadableStream(inputStream);
 }
 
 /**
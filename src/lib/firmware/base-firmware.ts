@@ -0,0 +1,125 @@
+/**
+ * Base Firmware Identification
+ *
+ * Identifies which PicoBoot release a base firmware comes from by
+ * comparing SHA-256 hashes with known release assets.
+ *
+ * The hash covers block contents only (family ID, target address and
+ * payload bytes), so a release UF2 and the base blocks split from merged
+ * firmware hash the same even though numbering and tags differ.
+ *
+ * Locally built base firmware is checked with validateBaseFirmware()
+ * before it is merged.
+ */
+
+import { calculateSHA256 } from '../utils/checksum';
+import { MEMORY_LAYOUT } from './uf2-encoder';
+import { isSpecialBlock, parseUF2Blocks, validateUF2 } from './uf2-merger';
+import type { FlashLayout } from './flash-layout';
+
+/**
+ * Base firmware asset of a PicoBoot release
+ */
+export interface KnownBaseFirmware {
+  version: string;      // Release tag, e.g. "v0.4"
+  assetName: string;    // e.g. "picoboot_pico.uf2"
+  sha256: string;       // Content hash (see hashBaseFirmware)
+}
+
+/**
+ * Result of base firmware identification
+ */
+export interface BaseFirmwareIdentification {
+  sha256: string;                   // Content hash of the base firmware
+  match: KnownBaseFirmware | null;  // Matching release asset, if any
+}
+
+/**
+ * Hashes base firmware contents
+ *
+ * Each block contributes its family ID and target address (uint32 LE)
+ * followed by its payload bytes, in file order.
+ *
+ * @param uf2Data - Base firmware (UF2)
+ * @returns SHA-256 as lowercase hex
+ */
+export async function hashBaseFirmware(uf2Data: Uint8Array): Promise<string> {
+  const blocks = parseUF2Blocks(uf2Data);
+  const content = new Uint8Array(blocks.reduce((size, b) => size + 8 + b.payloadSize, 0));
+  const view = new DataView(content.buffer);
+  let offset = 0;
+
+  for (const block of blocks) {
+    view.setUint32(offset, block.familyID, true);
+    view.setUint32(offset + 4, block.targetAddr, true);
+    content.set(block.data.subarray(0, block.payloadSize), offset + 8);
+    offset += 8 + block.payloadSize;
+  }
+
+  return calculateSHA256(content);
+}
+
+/**
+ * Identifies base firmware against known release assets
+ *
+ * @param baseUF2 - Base firmware (UF2), e.g. from splitUF2()
+ * @param known - Known release assets
+ * @returns Content hash and matching release asset (null if unknown)
+ */
+export async function identifyBaseFirmware(
+  baseUF2: Uint8Array,
+  known: KnownBaseFirmware[]
+): Promise<BaseFirmwareIdentification> {
+  const sha256 = await hashBaseFirmware(baseUF2);
+
+  return {
+    sha256,
+    match: known.find(k => k.sha256 === sha256) ?? null,
+  };
+}
+
+/**
+ * Validates base firmware before a payload is merged into it
+ *
+ * Checks:
+ * - Valid UF2 (see validateUF2, multiple families allowed)
+ * - At least one regular block
+ * - No blocks at or after the payload base (no payload yet)
+ * - Regular blocks fit the layout's base region
+ *
+ * @param uf2Data - Base firmware (UF2)
+ * @param layout - Board flash layout (default: Pico memory layout)
+ * @throws {UF2ValidationError} If the data is not a valid UF2
+ * @throws Error if the blocks do not fit the base region
+ */
+export function validateBaseFirmware(uf2Data: Uint8Array, layout?: FlashLayout): void {
+  validateUF2(uf2Data, { name: 'Base firmware', allowMultipleFamilies: true });
+
+  const regionStart = layout?.baseRegion.start ?? MEMORY_LAYOUT.FLASH_BASE;
+  const regionEnd = layout ? regionStart + layout.baseRegion.size : MEMORY_LAYOUT.PAYLOAD_BASE;
+  const payloadBase = layout?.payloadBase ?? MEMORY_LAYOUT.PAYLOAD_BASE;
+  const regionName = layout ? `${layout.name} base region` : 'base region';
+
+  const blocks = parseUF2Blocks(uf2Data).filter(b => !isSpecialBlock(b));
+  if (blocks.length === 0) {
+    throw new Error('Base firmware has no flash blocks');
+  }
+
+  for (const block of blocks) {
+    const end = block.targetAddr + block.payloadSize;
+
+    if (block.targetAddr >= payloadBase) {
+      throw new Error(
+        `Base firmware already contains a payload at 0x${block.targetAddr.toString(16)}`
+      );
+    }
+
+    if (block.targetAddr < regionStart || end > regionEnd) {
+      throw new Error(
+        `Base firmware block [0x${block.targetAddr.toString(16)} - 0x${end.toString(16)}] ` +
+        `does not fit ${regionName} ` +
+        `[0x${regionStart.toString(16)} - 0x${regionEnd.toString(16)}]`
+      );
+    }
+  }
+}
@@ -36,6 +36,7 @@ export interface DOLSection {
   address: number;  // Memory address
   size: number;     // Section size
   data: Uint8Array; // Section data
+  slot?: number;    // Header slot (0-6 text, 0-10 data), first free slot if unset
 }
 
 export interface DOLSections {
@@ -44,11 +45,90 @@ export interface DOLSections {
   totalSize: number;
 }
 
-const DOL_HEADER_SIZE = 256;
+/**
+ * Entry in the load image section map
+ */
+export interface LoadImageSection {
+  kind: 'text' | 'data' | 'bss';
+  index: number;        // Index within textSections/dataSections (0 for BSS)
+  address: number;      // Memory address
+  size: number;         // Section size
+  imageOffset: number;  // Offset of the section within the image
+}
+
+/**
+ * Flat memory image of a DOL, as laid out in RAM by the loader
+ */
+export interface LoadImage {
+  data: Uint8Array;             // Image bytes starting at baseAddress
+  baseAddress: number;          // Lowest load address
+  entryPoint: number;
+  sections: LoadImageSection[]; // Sorted by address
+}
+
+export interface LoadImageOptions {
+  /**
+   * Extend the image to cover the BSS range (default: false).
+   * BSS bytes past the last loaded section are normally cleared by the
+   * payload's own startup code, so they are left out to save flash space.
+   */
+  includeBss?: boolean;
+}
+
+export type DOLFindingSeverity = 'error' | 'warning';
+
+export type DOLFindingCode =
+  | 'header-too-small'
+  | 'header-all-zeros'
+  | 'file-too-large'
+  | 'invalid-entry-point'
+  | 'invalid-load-address'
+  | 'below-load-address'
+  | 'section-out-of-bounds'
+  | 'file-overlap'
+  | 'address-overlap'
+  | 'bss-overlap'
+  | 'outside-mem1';
+
+/**
+ * Reference to a DOL section slot
+ */
+export interface DOLSectionRef {
+  kind: 'text' | 'data' | 'bss';
+  index: number;  // Header slot (0-6 text, 0-10 data, 0 for BSS)
+}
+
+/**
+ * Single problem found while inspecting a DOL
+ */
+export interface DOLFinding {
+  severity: DOLFindingSeverity;
+  code: DOLFindingCode;
+  message: string;
+  section?: DOLSectionRef;
+  suggestion?: string;
+}
+
+/**
+ * Result of inspectDOL
+ */
+export interface DOLReport {
+  valid: boolean;             // True when there are no errors
+  header: DOLHeader | null;   // Null if the header could not be parsed
+  findings: DOLFinding[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export const DOL_HEADER_SIZE = 256;
+export const DOL_ENTRY_POINT_OFFSET = 0xE0;
 const DOL_MAX_SIZE = 5 * 1024 * 1024; // 5 MB
-const EXPECTED_ENTRY_POINT = 0x81300000;
-const TEXT_SECTION_COUNT = 7;
-const DATA_SECTION_COUNT = 11;
+export const EXPECTED_ENTRY_POINT = 0x81300000;
+export const TEXT_SECTION_COUNT = 7;
+export const DATA_SECTION_COUNT = 11;
+const SECTION_ALIGN = 32;
+export const MEM1_START = 0x80000000;
+export const MEM1_END = 0x81800000; // 24 MB MEM1 (cached mirror)
 
 /**
  * Parses DOL header (256 bytes)
@@ -71,7 +151,7 @@ export function parseDOLHeader(data: Uint8Array): DOLHeader {
   // Read single values
   const bssAddress = view.getUint32(0xD8, false); // big-endian
   const bssSize = view.getUint32(0xDC, false);
-  const entryPoint = view.getUint32(0xE0, false);
+  const entryPoint = view.getUint32(DOL_ENTRY_POINT_OFFSET, false);
 
   // Validate header is not all zeros
   const isAllZeros = textOffsets.every(v => v === 0) &&
@@ -98,55 +178,78 @@ export function parseDOLHeader(data: Uint8Array): DOLHeader {
 
 /**
  * Validates DOL header and file structure
+ *
+ * Runs the same checks as inspectDOL and throws on the first error.
+ *
+ * @throws Error with the message of the first error finding
  */
 export function validateDOL(header: DOLHeader, data: Uint8Array): void {
-  // Check file size
-  if (data.byteLength > DOL_MAX_SIZE) {
-    throw new Error(`DOL file too large: ${data.byteLength} bytes (max ${DOL_MAX_SIZE})`);
-  }
+  const findings = [...inspectFileSize(data.byteLength), ...inspectDOLHeader(header, data.byteLength).findings];
+  const error = findings.find(f => f.severity === 'error');
 
-  // Validate entry point
-  if (header.entryPoint !== EXPECTED_ENTRY_POINT) {
-    throw new Error(
-      `Invalid entry point: 0x${header.entryPoint.toString(16).toUpperCase()} ` +
-      `(expected 0x${EXPECTED_ENTRY_POINT.toString(16).toUpperCase()})`
-    );
+  if (error) {
+    throw new Error(error.message);
   }
+}
 
-  // Validate first text section load address
-  if (header.textAddresses[0] !== EXPECTED_ENTRY_POINT) {
-    throw new Error(
-      `Invalid load address: 0x${header.textAddresses[0].toString(16).toUpperCase()} ` +
-      `(expected 0x${EXPECTED_ENTRY_POINT.toString(16).toUpperCase()})`
-    );
-  }
+/**
+ * Inspects a DOL file and reports every problem found
+ *
+ * Unlike validateDOL, which throws on the first problem, this collects
+ * all findings: header and size checks, section bounds, file offset
+ * overlaps, memory address overlaps between text/data sections, BSS
+ * overlapping loaded sections, and sections outside MEM1.
+ *
+ * @param data - DOL file
+ * @returns Report with all findings (valid if no errors)
+ */
+export function inspectDOL(data: Uint8Array): DOLReport {
+  const findings: DOLFinding[] = [];
+  let header: DOLHeader | null = null;
 
-  // Validate text sections
-  for (let i = 0; i < TEXT_SECTION_COUNT; i++) {
-    if (header.textSizes[i] > 0) {
-      validateSection(
-        header.textOffsets[i],
-        header.textSizes[i],
-        data.byteLength,
-        `Text section ${i}`
-      );
+  if (data.byteLength < DOL_HEADER_SIZE) {
+    findings.push({
+      severity: 'error',
+      code: 'header-too-small',
+      message: `DOL file too small: ${data.byteLength} bytes (expected at least ${DOL_HEADER_SIZE})`,
+      suggestion: 'Make sure the file is a complete DOL executable',
+    });
+  } else {
+    try {
+      header = parseDOLHeader(data);
+    } catch (error) {
+      findings.push({
+        severity: 'error',
+        code: 'header-all-zeros',
+        message: error instanceof Error ? error.message : String(error),
+        suggestion: 'Make sure the file is a DOL executable and not an ISO or archive',
+      });
     }
   }
 
-  // Validate data sections
-  for (let i = 0; i < DATA_SECTION_COUNT; i++) {
-    if (header.dataSizes[i] > 0) {
-      validateSection(
-        header.dataOffsets[i],
-        header.dataSizes[i],
-        data.byteLength,
-        `Data section ${i}`
-      );
-    }
+  findings.push(...inspectFileSize(data.byteLength));
+
+  if (header) {
+    findings.push(...inspectHeader(header, data.byteLength));
   }
 
-  // Check for overlapping sections in file
-  checkOverlappingSections(header);
+  return createReport(header, findings);
+}
+
+/**
+ * Inspects an already parsed DOL header
+ *
+ * Runs the inspectDOL checks that need a header: entry point and load
+ * address, section bounds and overlaps, BSS and MEM1 ranges. Also used
+ * for the DOL header synthesized from an ELF executable, so the DOL file
+ * size limit is left to the caller.
+ *
+ * @param header - Parsed (or synthesized) DOL header
+ * @param fileSize - Size of the file the section offsets refer to
+ * @returns Report with all findings (valid if no errors)
+ */
+export function inspectDOLHeader(header: DOLHeader, fileSize: number): DOLReport {
+  return createReport(header, inspectHeader(header, fileSize));
 }
 
 /**
@@ -169,6 +272,7 @@ export function extractDOLSections(data: Uint8Array, header: DOLHeader): DOLSect
         address: header.textAddresses[i],
         size,
         data: sectionData,
+        slot: i,
       });
 
       totalSize += size;
@@ -187,6 +291,7 @@ export function extractDOLSections(data: Uint8Array, header: DOLHeader): DOLSect
         address: header.dataAddresses[i],
         size,
         data: sectionData,
+        slot: i,
       });
 
       totalSize += size;
@@ -201,39 +306,215 @@ export function extractDOLSections(data: Uint8Array, header: DOLHeader): DOLSect
 }
 
 /**
- * Helper: Read array of uint32 values (big-endian)
+ * Builds a flat memory image from DOL sections
+ *
+ * Each text/data section is placed at its memory address relative to the
+ * lowest load address; gaps between sections are zero-filled. The BSS range
+ * is zero-filled where it does not overlap a loaded section.
+ *
+ * @param header - Parsed DOL header (entry point and BSS range)
+ * @param sections - Sections returned by extractDOLSections
+ * @param options - Image options
+ * @returns Image bytes plus a section map
  */
-function readU32Array(view: DataView, offset: number, count: number): number[] {
-  const result: number[] = [];
-  for (let i = 0; i < count; i++) {
-    result.push(view.getUint32(offset + i * 4, false)); // false = big-endian
+export function buildLoadImage(
+  header: DOLHeader,
+  sections: DOLSections,
+  options: LoadImageOptions = {}
+): LoadImage {
+  const loaded = [
+    ...sections.textSections.map((section, index) => ({ kind: 'text' as const, index, section })),
+    ...sections.dataSections.map((section, index) => ({ kind: 'data' as const, index, section })),
+  ];
+
+  if (loaded.length === 0) {
+    throw new Error('Cannot build load image: DOL has no text or data sections');
+  }
+
+  const hasBss = header.bssSize > 0;
+  const bssEnd = header.bssAddress + header.bssSize;
+
+  let baseAddress = Math.min(...loaded.map(({ section }) => section.address));
+  let endAddress = Math.max(...loaded.map(({ section }) => section.address + section.size));
+
+  if (options.includeBss && hasBss) {
+    baseAddress = Math.min(baseAddress, header.bssAddress);
+    endAddress = Math.max(endAddress, bssEnd);
+  }
+
+  const data = new Uint8Array(endAddress - baseAddress);
+  const map: LoadImageSection[] = [];
+
+  // Gaps and BSS are implicit (zeros from new Uint8Array)
+  for (const { kind, index, section } of loaded) {
+    const imageOffset = section.address - baseAddress;
+    data.set(section.data.subarray(0, section.size), imageOffset);
+
+    map.push({ kind, index, address: section.address, size: section.size, imageOffset });
+  }
+
+  if (hasBss) {
+    map.push({
+      kind: 'bss',
+      index: 0,
+      address: header.bssAddress,
+      size: header.bssSize,
+      imageOffset: header.bssAddress - baseAddress,
+    });
+  }
+
+  map.sort((a, b) => a.address - b.address);
+
+  return {
+    data,
+    baseAddress,
+    entryPoint: header.entryPoint,
+    sections: map,
+  };
+}
+
+/**
+ * Serializes sections back into a DOL file
+ *
+ * Each section goes to its header slot (`section.slot`, or the first
+ * free slot) and keeps its file offset while that is still valid: past
+ * the 256-byte header and not overlapping an earlier section. Other
+ * sections are appended, each aligned to 32 bytes. Addresses and sizes
+ * come from `sections`, so relocating a payload is a matter of changing
+ * `section.address` before serializing. BSS range and entry point come
+ * from `header`.
+ *
+ * @param header - DOL header providing BSS range and entry point
+ * @param sections - Text (max 7) and data (max 11) sections
+ * @returns Complete DOL file
+ * @throws Error if there are too many sections or slots are invalid
+ */
+export function serializeDOL(header: DOLHeader, sections: DOLSections): Uint8Array {
+  const { textSections, dataSections } = sections;
+
+  if (textSections.length > TEXT_SECTION_COUNT) {
+    throw new Error(`Too many text sections: ${textSections.length} (max ${TEXT_SECTION_COUNT})`);
+  }
+
+  if (dataSections.length > DATA_SECTION_COUNT) {
+    throw new Error(`Too many data sections: ${dataSections.length} (max ${DATA_SECTION_COUNT})`);
   }
+
+  const textSlots = assignSlots('Text', textSections, TEXT_SECTION_COUNT);
+  const dataSlots = assignSlots('Data', dataSections, DATA_SECTION_COUNT);
+
+  // Lay out sections after the header
+  const all = [...textSections, ...dataSections];
+  const offsets = layoutSections(all);
+  const textOffsets = offsets.slice(0, textSections.length);
+  const dataOffsets = offsets.slice(textSections.length);
+  const fileSize = Math.max(DOL_HEADER_SIZE, ...all.map((section, i) => offsets[i] + section.size));
+
+  const result = new Uint8Array(fileSize);
+  const view = new DataView(result.buffer);
+
+  writeSectionTable(view, textSections, textSlots, textOffsets, 0x00, 0x48, 0x90);
+  writeSectionTable(view, dataSections, dataSlots, dataOffsets, 0x1C, 0x64, 0xAC);
+
+  view.setUint32(0xD8, header.bssAddress, false);
+  view.setUint32(0xDC, header.bssSize, false);
+  view.setUint32(DOL_ENTRY_POINT_OFFSET, header.entryPoint, false);
+
+  all.forEach((section, i) => result.set(section.data.subarray(0, section.size), offsets[i]));
+
   return result;
 }
 
 /**
- * Helper: Validate section bounds
+ * Helper: Write offsets/addresses/sizes of sections into header tables
  */
-function validateSection(offset: number, size: number, fileSize: number, name: string): void {
-  if (offset + size > fileSize) {
-    throw new Error(
-      `Section offset out of bounds: ${name} at 0x${offset.toString(16)} ` +
-      `size 0x${size.toString(16)} exceeds file size 0x${fileSize.toString(16)}`
-    );
+function writeSectionTable(
+  view: DataView,
+  sections: DOLSection[],
+  slots: number[],
+  offsets: number[],
+  offsetTable: number,
+  addressTable: number,
+  sizeTable: number
+): void {
+  sections.forEach((section, i) => {
+    const entry = slots[i] * 4;
+    view.setUint32(offsetTable + entry, offsets[i], false); // big-endian
+    view.setUint32(addressTable + entry, section.address, false);
+    view.setUint32(sizeTable + entry, section.size, false);
+  });
+}
+
+/**
+ * Helper: Header slot of each section (given slots first, then the first free ones)
+ */
+function assignSlots(kind: string, sections: DOLSection[], count: number): number[] {
+  const used = new Set<number>();
+  for (const { slot } of sections) {
+    if (slot === undefined) continue;
+    if (!Number.isInteger(slot) || slot < 0 || slot >= count) {
+      throw new Error(`Invalid ${kind} slot ${slot} (0-${count - 1})`);
+    }
+    if (used.has(slot)) {
+      throw new Error(`${kind} slot ${slot} is used by two sections`);
+    }
+    used.add(slot);
   }
+
+  let next = 0;
+  return sections.map(({ slot }) => {
+    if (slot !== undefined) return slot;
+    while (used.has(next)) next++;
+    used.add(next);
+    return next;
+  });
+}
+
+/**
+ * Helper: File offset of each section (valid original offsets kept, others appended)
+ */
+function layoutSections(sections: DOLSection[]): number[] {
+  const kept: { offset: number; size: number }[] = [];
+  const offsets = sections.map(({ offset, size }) => {
+    const valid = offset >= DOL_HEADER_SIZE &&
+      kept.every(range => !rangesOverlap(offset, size, range.offset, range.size));
+    if (!valid) return null;
+    kept.push({ offset, size });
+    return offset;
+  });
+
+  let fileSize = Math.max(DOL_HEADER_SIZE, ...kept.map(range => range.offset + range.size));
+  return offsets.map((offset, i) => {
+    if (offset !== null) return offset;
+    const placed = Math.ceil(fileSize / SECTION_ALIGN) * SECTION_ALIGN;
+    fileSize = placed + sections[i].size;
+    return placed;
+  });
+}
+
+/**
+ * Helper: Non-empty section slot with its file and memory ranges
+ */
+interface SectionSlot extends DOLSectionRef {
+  offset: number;
+  address: number;
+  size: number;
+  name: string;
 }
 
 /**
- * Helper: Check for overlapping sections in file
+ * Helper: Collect all non-empty text/data section slots
  */
-function checkOverlappingSections(header: DOLHeader): void {
-  const sections: { offset: number; size: number; name: string }[] = [];
+function collectSections(header: DOLHeader): SectionSlot[] {
+  const sections: SectionSlot[] = [];
 
-  // Collect all non-empty sections
   for (let i = 0; i < TEXT_SECTION_COUNT; i++) {
     if (header.textSizes[i] > 0) {
       sections.push({
+        kind: 'text',
+        index: i,
         offset: header.textOffsets[i],
+        address: header.textAddresses[i],
         size: header.textSizes[i],
         name: `Text ${i}`,
       });
@@ -243,27 +524,197 @@ function checkOverlappingSections(header: DOLHeader): void {
   for (let i = 0; i < DATA_SECTION_COUNT; i++) {
     if (header.dataSizes[i] > 0) {
       sections.push({
+        kind: 'data',
+        index: i,
         offset: header.dataOffsets[i],
+        address: header.dataAddresses[i],
         size: header.dataSizes[i],
         name: `Data ${i}`,
       });
     }
   }
 
-  // Sort by offset
-  sections.sort((a, b) => a.offset - b.offset);
+  return sections;
+}
+
+/**
+ * Helper: File size finding (DOL_MAX_SIZE)
+ */
+function inspectFileSize(fileSize: number): DOLFinding[] {
+  if (fileSize <= DOL_MAX_SIZE) {
+    return [];
+  }
+
+  return [{
+    severity: 'error',
+    code: 'file-too-large',
+    message: `DOL file too large: ${fileSize} bytes (max ${DOL_MAX_SIZE})`,
+    suggestion: 'Strip debug data or use a smaller payload build',
+  }];
+}
+
+/**
+ * Helper: Count findings into a report
+ */
+function createReport(header: DOLHeader | null, findings: DOLFinding[]): DOLReport {
+  const errorCount = findings.filter(f => f.severity === 'error').length;
+
+  return {
+    valid: errorCount === 0,
+    header,
+    findings,
+    errorCount,
+    warningCount: findings.length - errorCount,
+  };
+}
+
+/**
+ * Helper: Collect findings for a parsed header
+ */
+function inspectHeader(header: DOLHeader, fileSize: number): DOLFinding[] {
+  const findings: DOLFinding[] = [];
+  const sections = collectSections(header);
+  const ref = ({ kind, index }: DOLSectionRef): DOLSectionRef => ({ kind, index });
+
+  if (header.entryPoint !== EXPECTED_ENTRY_POINT) {
+    findings.push({
+      severity: 'error',
+      code: 'invalid-entry-point',
+      message: `Invalid entry point: ${hex(header.entryPoint)} (expected ${hex(EXPECTED_ENTRY_POINT)})`,
+      suggestion: `Relink the payload with its entry point at ${hex(EXPECTED_ENTRY_POINT)}`,
+    });
+  }
+
+  if (header.textAddresses[0] !== EXPECTED_ENTRY_POINT) {
+    findings.push({
+      severity: 'error',
+      code: 'invalid-load-address',
+      message: `Invalid load address: ${hex(header.textAddresses[0])} (expected ${hex(EXPECTED_ENTRY_POINT)})`,
+      section: { kind: 'text', index: 0 },
+      suggestion: `Link text section 0 at ${hex(EXPECTED_ENTRY_POINT)}`,
+    });
+  }
+
+  for (const section of sections) {
+    // The loader copies the image to EXPECTED_ENTRY_POINT, so image byte 0 must be the entry code
+    if (section.address < EXPECTED_ENTRY_POINT) {
+      findings.push({
+        severity: 'error',
+        code: 'below-load-address',
+        message:
+          `${section.name} [${hex(section.address)} - ${hex(section.address + section.size)}] ` +
+          `is below the load address ${hex(EXPECTED_ENTRY_POINT)}`,
+        section: ref(section),
+        suggestion: `Link all sections at or above ${hex(EXPECTED_ENTRY_POINT)}`,
+      });
+    }
+
+    if (section.offset + section.size > fileSize) {
+      findings.push({
+        severity: 'error',
+        code: 'section-out-of-bounds',
+        message:
+          `Section offset out of bounds: ${section.name} at 0x${section.offset.toString(16)} ` +
+          `size 0x${section.size.toString(16)} exceeds file size 0x${fileSize.toString(16)}`,
+        section: ref(section),
+        suggestion: 'The file is probably truncated; download or rebuild it again',
+      });
+    }
+
+    if (section.address < MEM1_START || section.address + section.size > MEM1_END) {
+      findings.push({
+        severity: 'error',
+        code: 'outside-mem1',
+        message:
+          `${section.name} [${hex(section.address)} - ${hex(section.address + section.size)}] ` +
+          `is outside MEM1 [${hex(MEM1_START)} - ${hex(MEM1_END)}]`,
+        section: ref(section),
+        suggestion: 'Link the section inside the 24 MB MEM1 range',
+      });
+    }
+  }
+
+  for (let i = 0; i < sections.length; i++) {
+    for (let j = i + 1; j < sections.length; j++) {
+      const a = sections[i];
+      const b = sections[j];
+
+      if (rangesOverlap(a.offset, a.size, b.offset, b.size)) {
+        findings.push({
+          severity: 'error',
+          code: 'file-overlap',
+          message: `Overlapping sections in file: ${a.name} and ${b.name}`,
+          section: ref(b),
+          suggestion: 'Rebuild the DOL with a conversion tool such as elf2dol',
+        });
+      }
+
+      if (rangesOverlap(a.address, a.size, b.address, b.size)) {
+        findings.push({
+          severity: 'error',
+          code: 'address-overlap',
+          message:
+            `Overlapping sections in memory: ${a.name} [${hex(a.address)} - ${hex(a.address + a.size)}] ` +
+            `and ${b.name} [${hex(b.address)} - ${hex(b.address + b.size)}]`,
+          section: ref(b),
+          suggestion: 'Check the linker script; one section would overwrite the other at load time',
+        });
+      }
+    }
+  }
 
-  // Check for overlaps
-  for (let i = 0; i < sections.length - 1; i++) {
-    const current = sections[i];
-    const next = sections[i + 1];
-    const currentEnd = current.offset + current.size;
+  if (header.bssSize > 0) {
+    for (const section of sections) {
+      if (rangesOverlap(header.bssAddress, header.bssSize, section.address, section.size)) {
+        findings.push({
+          severity: 'error',
+          code: 'bss-overlap',
+          message:
+            `BSS [${hex(header.bssAddress)} - ${hex(header.bssAddress + header.bssSize)}] ` +
+            `overlaps ${section.name} [${hex(section.address)} - ${hex(section.address + section.size)}]`,
+          section: { kind: 'bss', index: 0 },
+          suggestion: `Check the linker script; clearing BSS at startup would wipe ${section.name}`,
+        });
+      }
+    }
 
-    if (currentEnd > next.offset) {
-      throw new Error(
-        `Overlapping sections: ${current.name} (0x${current.offset.toString(16)}-0x${currentEnd.toString(16)}) ` +
-        `overlaps ${next.name} (0x${next.offset.toString(16)})`
-      );
+    if (header.bssAddress < MEM1_START || header.bssAddress + header.bssSize > MEM1_END) {
+      findings.push({
+        severity: 'error',
+        code: 'outside-mem1',
+        message:
+          `BSS [${hex(header.bssAddress)} - ${hex(header.bssAddress + header.bssSize)}] ` +
+          `is outside MEM1 [${hex(MEM1_START)} - ${hex(MEM1_END)}]`,
+        section: { kind: 'bss', index: 0 },
+        suggestion: 'Link the BSS inside the 24 MB MEM1 range',
+      });
     }
   }
+
+  return findings;
+}
+
+/**
+ * Helper: Check whether two [start, start + size) ranges overlap
+ */
+function rangesOverlap(startA: number, sizeA: number, startB: number, sizeB: number): boolean {
+  return startA < startB + sizeB && startB < startA + sizeA;
+}
+
+/**
+ * Helper: Format address as 0x-prefixed uppercase hex
+ */
+function hex(value: number): string {
+  return `0x${value.toString(16).toUpperCase()}`;
+}
+
+/**
+ * Helper: Read array of uint32 values (big-endian)
+ */
+function readU32Array(view: DataView, offset: number, count: number): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    result.push(view.getUint32(offset + i * 4, false)); // false = big-endian
+  }
+  return result;
 }
@@ -0,0 +1,276 @@
+/**
+ * ELF (Executable and Linkable Format) Parser
+ *
+ * Parses ELF32 big-endian PowerPC executables produced by devkitPPC and
+ * converts their loadable segments into the same section model used for
+ * DOL files, so both formats flow through the same pipeline.
+ *
+ * ELF header (52 bytes, big-endian for PowerPC):
+ * - 0x00-0x03: Magic (0x7F 'E' 'L' 'F')
+ * - 0x04:      Class (1 = 32-bit)
+ * - 0x05:      Data encoding (2 = big-endian)
+ * - 0x10-0x11: Type (2 = executable)
+ * - 0x12-0x13: Machine (20 = PowerPC)
+ * - 0x18-0x1B: Entry point - must be 0x81300000
+ * - 0x1C-0x1F: Program header table offset
+ * - 0x2A-0x2B: Program header entry size
+ * - 0x2C-0x2D: Program header count
+ *
+ * Program header (32 bytes):
+ * - 0x00: Type (1 = PT_LOAD)
+ * - 0x04: File offset
+ * - 0x08: Virtual address
+ * - 0x10: Size in file
+ * - 0x14: Size in memory (memsz > filesz means zero-filled BSS tail)
+ * - 0x18: Flags (PF_X = 1, PF_W = 2, PF_R = 4)
+ *
+ * Reference: https://refspecs.linuxfoundation.org/elf/elf.pdf
+ */
+
+import {
+  EXPECTED_ENTRY_POINT,
+  TEXT_SECTION_COUNT,
+  DATA_SECTION_COUNT,
+  type DOLHeader,
+  type DOLSection,
+  type DOLSections,
+} from './dol-parser';
+
+export interface ELFHeader {
+  type: number;
+  machine: number;
+  entryPoint: number;
+  programHeaderOffset: number;
+  programHeaderSize: number;
+  programHeaderCount: number;
+}
+
+export interface ELFProgramHeader {
+  type: number;
+  offset: number;       // File offset
+  address: number;      // Virtual (load) address
+  fileSize: number;     // Bytes present in file
+  memorySize: number;   // Bytes occupied in memory
+  flags: number;
+}
+
+/**
+ * ELF executable converted to the DOL section model
+ */
+export interface ELFExecutable {
+  header: DOLHeader;      // Synthesized DOL header (offsets refer to the ELF file)
+  sections: DOLSections;
+}
+
+const ELF_HEADER_SIZE = 52;
+const ELF_MAGIC = [0x7F, 0x45, 0x4C, 0x46]; // "\x7FELF"
+const ELFCLASS32 = 1;
+const ELFDATA2MSB = 2;
+const ET_EXEC = 2;
+const EM_PPC = 20;
+const PT_LOAD = 1;
+const PF_X = 1;
+const PROGRAM_HEADER_SIZE = 32;
+
+/**
+ * Checks whether data starts with the ELF magic
+ */
+export function isELF(data: Uint8Array): boolean {
+  return data.byteLength >= ELF_MAGIC.length && ELF_MAGIC.every((b, i) => data[i] === b);
+}
+
+/**
+ * Parses ELF32 header (52 bytes)
+ */
+export function parseELFHeader(data: Uint8Array): ELFHeader {
+  if (data.byteLength < ELF_HEADER_SIZE) {
+    throw new Error(`ELF file too small: ${data.byteLength} bytes (expected at least ${ELF_HEADER_SIZE})`);
+  }
+
+  if (!isELF(data)) {
+    throw new Error('Invalid ELF header: bad magic');
+  }
+
+  if (data[4] !== ELFCLASS32) {
+    throw new Error(`Unsupported ELF class: ${data[4]} (expected 32-bit)`);
+  }
+
+  if (data[5] !== ELFDATA2MSB) {
+    throw new Error(`Unsupported ELF data encoding: ${data[5]} (expected big-endian)`);
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  return {
+    type: view.getUint16(0x10, false),
+    machine: view.getUint16(0x12, false),
+    entryPoint: view.getUint32(0x18, false),
+    programHeaderOffset: view.getUint32(0x1C, false),
+    programHeaderSize: view.getUint16(0x2A, false),
+    programHeaderCount: view.getUint16(0x2C, false),
+  };
+}
+
+/**
+ * Validates ELF header and program header table
+ */
+export function validateELF(header: ELFHeader, data: Uint8Array): void {
+  if (header.type !== ET_EXEC) {
+    throw new Error(`Unsupported ELF type: ${header.type} (expected executable)`);
+  }
+
+  if (header.machine !== EM_PPC) {
+    throw new Error(`Unsupported ELF machine: ${header.machine} (expected PowerPC)`);
+  }
+
+  // Validate entry point (same expectation as validateDOL)
+  if (header.entryPoint !== EXPECTED_ENTRY_POINT) {
+    throw new Error(
+      `Invalid entry point: 0x${header.entryPoint.toString(16).toUpperCase()} ` +
+      `(expected 0x${EXPECTED_ENTRY_POINT.toString(16).toUpperCase()})`
+    );
+  }
+
+  if (header.programHeaderCount === 0) {
+    throw new Error('ELF has no program headers');
+  }
+
+  if (header.programHeaderSize < PROGRAM_HEADER_SIZE) {
+    throw new Error(
+      `Invalid program header size: ${header.programHeaderSize} (expected at least ${PROGRAM_HEADER_SIZE})`
+    );
+  }
+
+  const tableEnd = header.programHeaderOffset + header.programHeaderSize * header.programHeaderCount;
+  if (tableEnd > data.byteLength) {
+    throw new Error(
+      `Program header table out of bounds: ends at 0x${tableEnd.toString(16)} ` +
+      `exceeds file size 0x${data.byteLength.toString(16)}`
+    );
+  }
+
+  // Validate loadable segments
+  parseProgramHeaders(data, header).forEach((ph, i) => {
+    if (ph.type === PT_LOAD && ph.offset + ph.fileSize > data.byteLength) {
+      throw new Error(
+        `Segment offset out of bounds: Segment ${i} at 0x${ph.offset.toString(16)} ` +
+        `size 0x${ph.fileSize.toString(16)} exceeds file size 0x${data.byteLength.toString(16)}`
+      );
+    }
+  });
+}
+
+/**
+ * Reads all program headers
+ */
+export function parseProgramHeaders(data: Uint8Array, header: ELFHeader): ELFProgramHeader[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const result: ELFProgramHeader[] = [];
+
+  for (let i = 0; i < header.programHeaderCount; i++) {
+    const base = header.programHeaderOffset + i * header.programHeaderSize;
+
+    result.push({
+      type: view.getUint32(base + 0x00, false),
+      offset: view.getUint32(base + 0x04, false),
+      address: view.getUint32(base + 0x08, false),
+      fileSize: view.getUint32(base + 0x10, false),
+      memorySize: view.getUint32(base + 0x14, false),
+      flags: view.getUint32(base + 0x18, false),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Extracts loadable segments as DOL text/data sections
+ *
+ * Executable segments become text sections, the rest become data sections.
+ * Zero-filled segment tails (memsz > filesz) are merged into a single BSS
+ * range, as a DOL header would describe them.
+ *
+ * @param data - ELF file
+ * @param header - Parsed ELF header
+ * @returns Synthesized DOL header and sections
+ */
+export function extractELFSections(data: Uint8Array, header: ELFHeader): ELFExecutable {
+  const segments = parseProgramHeaders(data, header)
+    .filter(ph => ph.type === PT_LOAD && ph.memorySize > 0)
+    .sort((a, b) => a.address - b.address);
+
+  const textSections: DOLSection[] = [];
+  const dataSections: DOLSection[] = [];
+  let totalSize = 0;
+  let bssStart = Infinity;
+  let bssEnd = 0;
+
+  for (const ph of segments) {
+    if (ph.fileSize > 0) {
+      const section: DOLSection = {
+        offset: ph.offset,
+        address: ph.address,
+        size: ph.fileSize,
+        data: data.slice(ph.offset, ph.offset + ph.fileSize),
+      };
+
+      if (ph.flags & PF_X) {
+        textSections.push(section);
+      } else {
+        dataSections.push(section);
+      }
+
+      totalSize += ph.fileSize;
+    }
+
+    if (ph.memorySize > ph.fileSize) {
+      bssStart = Math.min(bssStart, ph.address + ph.fileSize);
+      bssEnd = Math.max(bssEnd, ph.address + ph.memorySize);
+    }
+  }
+
+  if (textSections.length > TEXT_SECTION_COUNT) {
+    throw new Error(`Too many executable segments: ${textSections.length} (DOL max ${TEXT_SECTION_COUNT})`);
+  }
+
+  if (dataSections.length > DATA_SECTION_COUNT) {
+    throw new Error(`Too many data segments: ${dataSections.length} (DOL max ${DATA_SECTION_COUNT})`);
+  }
+
+  const hasBss = bssEnd > 0;
+
+  return {
+    header: {
+      textOffsets: padTo(textSections.map(s => s.offset), TEXT_SECTION_COUNT),
+      dataOffsets: padTo(dataSections.map(s => s.offset), DATA_SECTION_COUNT),
+      textAddresses: padTo(textSections.map(s => s.address), TEXT_SECTION_COUNT),
+      dataAddresses: padTo(dataSections.map(s => s.address), DATA_SECTION_COUNT),
+      textSizes: padTo(textSections.map(s => s.size), TEXT_SECTION_COUNT),
+      dataSizes: padTo(dataSections.map(s => s.size), DATA_SECTION_COUNT),
+      bssAddress: hasBss ? bssStart : 0,
+      bssSize: hasBss ? bssEnd - bssStart : 0,
+      entryPoint: header.entryPoint,
+    },
+    sections: {
+      textSections,
+      dataSections,
+      totalSize,
+    },
+  };
+}
+
+/**
+ * Parses, validates and converts an ELF executable in one step
+ */
+export function loadELF(data: Uint8Array): ELFExecutable {
+  const header = parseELFHeader(data);
+  validateELF(header, data);
+  return extractELFSections(data, header);
+}
+
+/**
+ * Helper: Pad array with zeros to fixed length
+ */
+function padTo(values: number[], count: number): number[] {
+  return [...values, ...new Array(count - values.length).fill(0)];
+}
@@ -0,0 +1,248 @@
+/**
+ * Firmware Builder - Off-Main-Thread Pipeline Runner
+ *
+ * Runs the firmware pipeline (parse, scramble, wrap, encode, merge) in a
+ * Web Worker so large payloads do not freeze the UI. Input and output
+ * buffers are transferred, not copied.
+ *
+ * Falls back to running the pipeline synchronously on the calling thread
+ * when Web Workers are unavailable (tests, older environments).
+ *
+ * Protocol (main thread → worker):
+ * - { type: 'build', id, request }
+ *
+ * Protocol (worker → main thread):
+ * - { type: 'progress', id, stage }
+ * - { type: 'result', id, result }
+ * - { type: 'error', id, message, report?, budget? }
+ */
+
+import {
+  runFirmwarePipeline,
+  PayloadValidationError,
+  type FirmwareBuildRequest,
+  type FirmwareBuildResult,
+  type FirmwareBuildStage,
+} from './pipeline';
+import { PayloadTooLargeError, type PayloadBudget } from './flash-layout';
+import type { DOLReport } from './dol-parser';
+
+export type WorkerRequest = {
+  type: 'build';
+  id: number;
+  request: FirmwareBuildRequest;
+};
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; stage: FirmwareBuildStage }
+  | { type: 'result'; id: number; result: FirmwareBuildResult }
+  | { type: 'error'; id: number; message: string; report?: DOLReport; budget?: PayloadBudget };
+
+export interface FirmwareBuilderOptions {
+  /**
+   * Run the pipeline in a Web Worker (default: when Worker is available)
+   */
+  useWorker?: boolean;
+
+  /**
+   * Custom worker factory (for testing)
+   */
+  createWorker?: () => Worker;
+}
+
+export interface FirmwareBuildOptions {
+  /**
+   * Progress callback, called when a pipeline stage starts
+   */
+  onProgress?: (stage: FirmwareBuildStage) => void;
+
+  /**
+   * Aborts the build (terminates the worker)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error thrown when a build is cancelled
+ */
+export class FirmwareBuildCancelledError extends Error {
+  constructor() {
+    super('Firmware build cancelled');
+    this.name = 'FirmwareBuildCancelledError';
+  }
+}
+
+/**
+ * Handles a worker request (worker side of the protocol)
+ *
+ * @param message - Request from main thread
+ * @param post - Posts a response, transferring the given buffers
+ */
+export function handleWorkerRequest(
+  message: WorkerRequest,
+  post: (response: WorkerResponse, transfer: Transferable[]) => void
+): void {
+  const { id, request } = message;
+
+  try {
+    const result = runFirmwarePipeline(request, (stage) => {
+      post({ type: 'progress', id, stage }, []);
+    });
+    post({ type: 'result', id, result }, [result.data.buffer]);
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : String(error),
+      report: error instanceof PayloadValidationError ? error.report : undefined,
+      budget: error instanceof PayloadTooLargeError ? error.budget : undefined,
+    }, []);
+  }
+}
+
+export class FirmwareBuilder {
+  private useWorker: boolean;
+  private createWorker: () => Worker;
+  private worker: Worker | null = null;
+  private nextId = 1;
+
+  constructor(options: FirmwareBuilderOptions = {}) {
+    this.useWorker = options.useWorker ?? typeof Worker !== 'undefined';
+    this.createWorker = options.createWorker ?? (() =>
+      new Worker(new URL('./firmware.worker.ts', import.meta.url), { type: 'module' })
+    );
+  }
+
+  /**
+   * Builds firmware
+   *
+   * Buffers in `request` are transferred to the worker and become
+   * unusable (detached) on the calling side.
+   *
+   * @param request - Executable, base firmware and platform
+   * @param options - Progress callback and abort signal
+   * @returns Merged firmware
+   * @throws {FirmwareBuildCancelledError} If aborted
+   * @throws {PayloadValidationError} If the DOL has errors
+   * @throws {PayloadTooLargeError} If the payload does not fit the layout
+   */
+  async build(
+    request: FirmwareBuildRequest,
+    options: FirmwareBuildOptions = {}
+  ): Promise<FirmwareBuildResult> {
+    if (options.signal?.aborted) {
+      throw new FirmwareBuildCancelledError();
+    }
+
+    return this.useWorker
+      ? this.buildInWorker(request, options)
+      : this.buildSync(request, options);
+  }
+
+  /**
+   * Terminates the worker (a new one is created on the next build)
+   */
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Runs the pipeline on the calling thread
+   */
+  private buildSync(
+    request: FirmwareBuildRequest,
+    { onProgress, signal }: FirmwareBuildOptions
+  ): FirmwareBuildResult {
+    return runFirmwarePipeline(request, (stage) => {
+      // Synchronous builds can only be cancelled between stages
+      if (signal?.aborted) {
+        throw new FirmwareBuildCancelledError();
+      }
+      onProgress?.(stage);
+    });
+  }
+
+  /**
+   * Runs the pipeline in the worker
+   */
+  private buildInWorker(
+    request: FirmwareBuildRequest,
+    { onProgress, signal }: FirmwareBuildOptions
+  ): Promise<FirmwareBuildResult> {
+    const worker = this.worker ?? (this.worker = this.createWorker());
+    const id = this.nextId++;
+
+    const executable = toTransferable(request.executable);
+    const baseFirmware = toTransferable(request.baseFirmware);
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onMessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        if (response.id !== id) return;
+
+        switch (response.type) {
+          case 'progress':
+            onProgress?.(response.stage);
+            break;
+          case 'result':
+            cleanup();
+            resolve(response.result);
+            break;
+          case 'error':
+            cleanup();
+            reject(toBuildError(response));
+            break;
+        }
+      };
+
+      const onError = (event: ErrorEvent) => {
+        cleanup();
+        this.terminate();
+        reject(new Error(`Firmware worker failed: ${event.message}`));
+      };
+
+      const onAbort = () => {
+        cleanup();
+        this.terminate();
+        reject(new FirmwareBuildCancelledError());
+      };
+
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      signal?.addEventListener('abort', onAbort);
+
+      const message: WorkerRequest = {
+        type: 'build',
+        id,
+        request: { ...request, executable, baseFirmware },
+      };
+      worker.postMessage(message, [executable.buffer, baseFirmware.buffer]);
+    });
+  }
+}
+
+/**
+ * Helper: Ensure array owns its whole buffer so it can be transferred
+ */
+function toTransferable(data: Uint8Array): Uint8Array<ArrayBuffer> {
+  if (data.byteOffset === 0 && data.byteLength === data.buffer.byteLength && data.buffer instanceof ArrayBuffer) {
+    return data as Uint8Array<ArrayBuffer>;
+  }
+  return data.slice();
+}
+
+/**
+ * Helper: Rebuild the typed pipeline error from a worker error response
+ */
+function toBuildError(response: Extract<WorkerResponse, { type: 'error' }>): Error {
+  if (response.report) return new PayloadValidationError(response.report);
+  if (response.budget) return new PayloadTooLargeError(response.budget);
+  return new Error(response.message);
+}
@@ -0,0 +1,14 @@
+/**
+ * Firmware Worker - Web Worker entry point
+ *
+ * Runs the firmware pipeline off the main thread.
+ * See firmware-builder.ts for the message protocol.
+ */
+
+import { handleWorkerRequest, type WorkerRequest } from './firmware-builder';
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  handleWorkerRequest(event.data, (response, transfer) => {
+    self.postMessage(response, { transfer });
+  });
+};
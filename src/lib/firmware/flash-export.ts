@@ -0,0 +1,168 @@
+/**
+ * Flash Export - Raw Binary and Intel HEX
+ *
+ * Converts UF2 blocks into formats for SWD programmers (picoprobe,
+ * OpenOCD) and external flashers:
+ * - .bin: flat flash image from FLASH_BASE, gaps filled with 0xFF
+ *   (erased flash)
+ * - .hex: Intel HEX with extended linear address records
+ *
+ * Special blocks (absolute family or not-main-flash) are skipped, as
+ * they do not describe flash contents.
+ */
+
+import { MEMORY_LAYOUT } from './uf2-encoder';
+import { parseUF2Blocks, isSpecialBlock, type UF2Block } from './uf2-merger';
+
+/**
+ * Firmware download formats
+ */
+export type FirmwareExportFormat = 'uf2' | 'bin' | 'hex';
+
+/**
+ * Converted firmware ready for download
+ */
+export interface FirmwareExport {
+  data: Uint8Array;
+  mimeType: string;
+  extension: string;        // File extension without dot
+}
+
+/**
+ * Options for raw binary export
+ */
+export interface BinExportOptions {
+  baseAddress?: number;     // Image start address (default: FLASH_BASE)
+  fillByte?: number;        // Gap fill (default: 0xFF, erased flash)
+}
+
+const HEX_RECORD_SIZE = 16;
+const HEX_RECORD_DATA = 0x00;
+const HEX_RECORD_EOF = 0x01;
+const HEX_RECORD_EXTENDED_LINEAR_ADDRESS = 0x04;
+
+/**
+ * Converts UF2 firmware to the given download format
+ *
+ * @param uf2Data - UF2-encoded firmware
+ * @param format - Target format
+ * @returns Converted data with MIME type and file extension
+ */
+export function exportFirmware(uf2Data: Uint8Array, format: FirmwareExportFormat): FirmwareExport {
+  switch (format) {
+    case 'uf2':
+      return { data: uf2Data, mimeType: 'application/octet-stream', extension: 'uf2' };
+    case 'bin':
+      return { data: blocksToBin(parseUF2Blocks(uf2Data)), mimeType: 'application/octet-stream', extension: 'bin' };
+    case 'hex':
+      return {
+        data: new TextEncoder().encode(blocksToIntelHex(parseUF2Blocks(uf2Data))),
+        mimeType: 'text/plain',
+        extension: 'hex',
+      };
+  }
+}
+
+/**
+ * Converts UF2 blocks to a flat flash image
+ *
+ * @param blocks - UF2 blocks
+ * @param options - Start address and gap fill byte
+ * @returns Image from baseAddress to the end of the last block
+ * @throws Error if a block starts before baseAddress or blocks overlap
+ */
+export function blocksToBin(blocks: UF2Block[], options: BinExportOptions = {}): Uint8Array {
+  const baseAddress = options.baseAddress ?? MEMORY_LAYOUT.FLASH_BASE;
+  const ranges = getFlashRanges(blocks);
+
+  if (ranges.length === 0) {
+    return new Uint8Array(0);
+  }
+
+  if (ranges[0].address < baseAddress) {
+    throw new Error(
+      `Block at 0x${ranges[0].address.toString(16)} is before image start 0x${baseAddress.toString(16)}`
+    );
+  }
+
+  const last = ranges[ranges.length - 1];
+  const image = new Uint8Array(last.address + last.data.byteLength - baseAddress);
+  image.fill(options.fillByte ?? 0xFF);
+
+  for (const range of ranges) {
+    image.set(range.data, range.address - baseAddress);
+  }
+
+  return image;
+}
+
+/**
+ * Converts UF2 blocks to Intel HEX
+ *
+ * Emits 16-byte data records, an extended linear address record whenever
+ * the upper 16 address bits change, and an end-of-file record. Gaps are
+ * left out.
+ *
+ * @param blocks - UF2 blocks
+ * @returns Intel HEX text (CRLF line endings)
+ * @throws Error if blocks overlap
+ */
+export function blocksToIntelHex(blocks: UF2Block[]): string {
+  const lines: string[] = [];
+  let upper = -1;
+
+  for (const range of getFlashRanges(blocks)) {
+    for (let offset = 0; offset < range.data.byteLength;) {
+      const address = range.address + offset;
+
+      if (address >>> 16 !== upper) {
+        upper = address >>> 16;
+        lines.push(formatHexRecord(HEX_RECORD_EXTENDED_LINEAR_ADDRESS, 0, [upper >> 8, upper & 0xFF]));
+      }
+
+      // Records must not cross a 64 KB segment boundary
+      const segmentEnd = (upper + 1) * 0x10000;
+      const length = Math.min(HEX_RECORD_SIZE, range.data.byteLength - offset, segmentEnd - address);
+
+      lines.push(formatHexRecord(HEX_RECORD_DATA, address & 0xFFFF, range.data.subarray(offset, offset + length)));
+      offset += length;
+    }
+  }
+
+  lines.push(formatHexRecord(HEX_RECORD_EOF, 0, []));
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Helper: Flash contents of regular blocks, sorted by address
+ */
+function getFlashRanges(blocks: UF2Block[]): { address: number; data: Uint8Array }[] {
+  const ranges = blocks
+    .filter(b => !isSpecialBlock(b))
+    .map(b => ({ address: b.targetAddr, data: b.data.subarray(0, b.payloadSize) }))
+    .sort((a, b) => a.address - b.address);
+
+  for (let i = 1; i < ranges.length; i++) {
+    const prev = ranges[i - 1];
+    if (ranges[i].address < prev.address + prev.data.byteLength) {
+      throw new Error(
+        `Overlapping blocks at 0x${ranges[i].address.toString(16)}`
+      );
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Helper: Format an Intel HEX record (":LLAAAATT<data>CC")
+ */
+function formatHexRecord(type: number, address: number, data: ArrayLike<number>): string {
+  const bytes = [data.length, address >> 8, address & 0xFF, type, ...Array.from(data)];
+  const checksum = (0x100 - (bytes.reduce((sum, b) => sum + b, 0) & 0xFF)) & 0xFF;
+
+  return ':' + [...bytes, checksum]
+    .map(b => b.toString(16).toUpperCase().padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,214 @@
+/**
+ * Flash Layout - Board Flash Profiles
+ *
+ * Describes where PicoBoot base firmware and the payload live in flash
+ * for each supported board. The encoder, merger and size checks take a
+ * FlashLayout instead of assuming the 2 MB Raspberry Pi Pico layout.
+ *
+ * Layout (all boards):
+ * - Base region: PicoBoot firmware, from flash start
+ * - Payload window: IPLBOOT image at payloadBase, up to maxPayloadSize bytes
+ *
+ * Custom boards can be added at runtime with registerFlashLayout().
+ */
+
+import type { Platform } from './uf2-encoder';
+
+/**
+ * Flash layout profile of a board
+ */
+export interface FlashLayout {
+  id: string;                 // Unique profile ID (e.g. 'pico2')
+  name: string;               // Display name
+  platform: Platform;
+  flashBase: number;          // XIP flash base address
+  flashSize: number;          // Flash size in bytes
+  baseRegion: {
+    start: number;            // PicoBoot base firmware start address
+    size: number;             // Bytes reserved for base firmware
+  };
+  payloadBase: number;        // IPLBOOT header address
+  maxPayloadSize: number;     // Max IPLBOOT image size in bytes
+}
+
+const KB = 1024;
+const MB = 1024 * KB;
+const FLASH_BASE = 0x10000000;
+const BASE_REGION_SIZE = 512 * KB;
+
+/**
+ * Helper: Create a layout with the standard 512 KB base region
+ */
+function standardLayout(id: string, name: string, platform: Platform, flashSize: number): FlashLayout {
+  return {
+    id,
+    name,
+    platform,
+    flashBase: FLASH_BASE,
+    flashSize,
+    baseRegion: { start: FLASH_BASE, size: BASE_REGION_SIZE },
+    payloadBase: FLASH_BASE + BASE_REGION_SIZE,
+    maxPayloadSize: flashSize - BASE_REGION_SIZE,
+  };
+}
+
+/**
+ * Built-in board layouts
+ */
+export const BUILTIN_FLASH_LAYOUTS: readonly FlashLayout[] = [
+  standardLayout('pico', 'Raspberry Pi Pico / Pico W (2 MB)', 'RP2040', 2 * MB),
+  standardLayout('pico2', 'Raspberry Pi Pico 2 / Pico 2 W (4 MB)', 'RP2350', 4 * MB),
+  standardLayout('rp2040-16mb', 'RP2040 board (16 MB)', 'RP2040', 16 * MB),
+  standardLayout('rp2350-16mb', 'RP2350 board (16 MB)', 'RP2350', 16 * MB),
+];
+
+/**
+ * Default layout ID per platform
+ */
+export const DEFAULT_FLASH_LAYOUTS: Record<Platform, string> = {
+  RP2040: 'pico',
+  RP2350: 'pico2',
+};
+
+const registry = new Map<string, FlashLayout>(
+  BUILTIN_FLASH_LAYOUTS.map(layout => [layout.id, layout])
+);
+
+/**
+ * Registers a flash layout (replaces a layout with the same ID)
+ *
+ * @param layout - Layout to register
+ * @throws Error if the layout is inconsistent
+ */
+export function registerFlashLayout(layout: FlashLayout): void {
+  validateFlashLayout(layout);
+  registry.set(layout.id, layout);
+}
+
+/**
+ * Gets a registered flash layout
+ *
+ * @param id - Layout ID
+ * @returns Flash layout
+ * @throws Error if no layout has this ID
+ */
+export function getFlashLayout(id: string): FlashLayout {
+  const layout = registry.get(id);
+  if (!layout) {
+    throw new Error(`Unknown flash layout: ${id}`);
+  }
+  return layout;
+}
+
+/**
+ * Gets the default flash layout of a platform
+ *
+ * @param platform - Target platform
+ * @returns Flash layout
+ */
+export function getDefaultFlashLayout(platform: Platform): FlashLayout {
+  return getFlashLayout(DEFAULT_FLASH_LAYOUTS[platform]);
+}
+
+/**
+ * Lists registered flash layouts
+ *
+ * @param platform - Only list layouts of this platform
+ * @returns Layouts in registration order
+ */
+export function listFlashLayouts(platform?: Platform): FlashLayout[] {
+  const layouts = [...registry.values()];
+  return platform ? layouts.filter(l => l.platform === platform) : layouts;
+}
+
+/**
+ * Payload size against a layout's payload window
+ */
+export interface PayloadBudget {
+  layoutName: string;
+  size: number;               // Wrapped payload footprint in bytes
+  limit: number;              // Layout maxPayloadSize
+  remaining: number;          // limit - size (negative when over)
+}
+
+/**
+ * Error thrown when a payload does not fit the payload window
+ */
+export class PayloadTooLargeError extends Error {
+  constructor(public readonly budget: PayloadBudget) {
+    super(
+      `Payload is ${-budget.remaining} bytes over the ${budget.layoutName} limit ` +
+      `(${budget.size} of ${budget.limit} bytes)`
+    );
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Computes how much of the payload window a payload uses
+ *
+ * @param size - Wrapped payload footprint (see calculateWrappedSize)
+ * @param layout - Board flash layout
+ * @returns Used, available and remaining bytes
+ */
+export function getPayloadBudget(size: number, layout: FlashLayout): PayloadBudget {
+  return {
+    layoutName: layout.name,
+    size,
+    limit: layout.maxPayloadSize,
+    remaining: layout.maxPayloadSize - size,
+  };
+}
+
+/**
+ * Checks that a payload fits the payload window
+ *
+ * @param size - Wrapped payload footprint (see calculateWrappedSize)
+ * @param layout - Board flash layout
+ * @returns Payload budget
+ * @throws {PayloadTooLargeError} If the payload is over the limit
+ */
+export function checkPayloadBudget(size: number, layout: FlashLayout): PayloadBudget {
+  const budget = getPayloadBudget(size, layout);
+  if (budget.remaining < 0) {
+    throw new PayloadTooLargeError(budget);
+  }
+  return budget;
+}
+
+/**
+ * Validates a flash layout
+ *
+ * Checks:
+ * - Base region and payload window are inside flash
+ * - Payload window does not overlap the base region
+ * - Payload base is 256-byte aligned (flash page)
+ *
+ * @param layout - Layout to validate
+ * @throws Error if validation fails
+ */
+export function validateFlashLayout(layout: FlashLayout): void {
+  const flashEnd = layout.flashBase + layout.flashSize;
+  const baseEnd = layout.baseRegion.start + layout.baseRegion.size;
+  const payloadEnd = layout.payloadBase + layout.maxPayloadSize;
+
+  if (layout.baseRegion.start < layout.flashBase || baseEnd > flashEnd) {
+    throw new Error(`Flash layout ${layout.id}: base region is outside flash`);
+  }
+
+  if (layout.payloadBase < layout.flashBase || payloadEnd > flashEnd) {
+    throw new Error(
+      `Flash layout ${layout.id}: payload window ` +
+      `0x${layout.payloadBase.toString(16)} - 0x${payloadEnd.toString(16)} is outside flash ` +
+      `(ends at 0x${flashEnd.toString(16)})`
+    );
+  }
+
+  if (layout.payloadBase < baseEnd && payloadEnd > layout.baseRegion.start) {
+    throw new Error(`Flash layout ${layout.id}: payload window overlaps base region`);
+  }
+
+  if (layout.payloadBase % 256 !== 0) {
+    throw new Error(`Flash layout ${layout.id}: payload base is not 256-byte aligned`);
+  }
+}
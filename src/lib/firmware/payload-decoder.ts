@@ -0,0 +1,137 @@
+/**
+ * Payload Decoder - Recover Payload from PicoBoot Firmware
+ *
+ * Reverses the firmware build pipeline so the contents of a flashed or
+ * user-submitted PicoBoot UF2 can be verified.
+ *
+ * Process:
+ * 1. Parse UF2 blocks and collect those in the payload region
+ * 2. Reassemble the contiguous flash image at the layout's payload base
+ * 3. Check IPLBOOT header, PICO footer and CRC32
+ * 4. Descramble the payload data and drop the alignment padding
+ * 5. Rebuild a loadable DOL from the memory image
+ *
+ * The firmware only stores the flat memory image, so the rebuilt DOL has
+ * a single text section holding the whole image. It loads the same way
+ * but is not the original DOL file.
+ */
+
+import { parseUF2Blocks, isSpecialBlock } from './uf2-merger';
+import { MEMORY_LAYOUT } from './uf2-encoder';
+import type { FlashLayout } from './flash-layout';
+import {
+  parseWrappedPayload,
+  parseIPLBOOTHeader,
+  IPLBOOT_MAGIC,
+  SIGNATURE_SIZE,
+  type IPLBOOTHeader,
+} from './payload-wrapper';
+import { descramble } from './scrambler';
+import { EXPECTED_ENTRY_POINT, serializeDOL } from './dol-parser';
+
+/**
+ * Result of decoding a PicoBoot payload
+ */
+export interface DecodedPayload {
+  header: Uint8Array;       // IPLBOOT header (32 bytes)
+  metadata: IPLBOOTHeader;  // Parsed header (name, timestamp, CRC32 if present)
+  imageSize: number;        // Size field from IPLBOOT header
+  image: Uint8Array;        // Descrambled memory image (legacy headers: may include up to 3 alignment bytes)
+  dol: Uint8Array;          // Rebuilt single-section DOL (image as text 0 at 0x81300000), not the original file
+}
+
+/**
+ * Decodes the payload stored in a built PicoBoot UF2
+ *
+ * @param uf2Data - Merged PicoBoot firmware (UF2)
+ * @param layout - Board flash layout (default: Raspberry Pi Pico)
+ * @returns Header, descrambled memory image and rebuilt single-section DOL
+ * @throws Error if no valid payload is found
+ */
+export function decodePicoBootPayload(uf2Data: Uint8Array, layout?: FlashLayout): DecodedPayload {
+  const payloadBase = layout?.payloadBase ?? MEMORY_LAYOUT.PAYLOAD_BASE;
+  const flash = readPayloadRegion(uf2Data, payloadBase);
+
+  // Check header
+  const magic = new TextDecoder().decode(flash.slice(0, 8));
+  if (magic !== IPLBOOT_MAGIC) {
+    throw new Error(
+      `No IPLBOOT header at 0x${payloadBase.toString(16)}: found "${magic}"`
+    );
+  }
+
+  // Check size, footer and CRC32
+  const wrapped = parseWrappedPayload(flash);
+  const metadata = parseIPLBOOTHeader(wrapped.header);
+
+  // Strip header and footer, descramble, then drop the padding (unknown in legacy headers)
+  const data = descramble(wrapped.payload.slice(0, -SIGNATURE_SIZE));
+  const image = data.slice(0, data.byteLength - (metadata.padding ?? 0));
+
+  const dol = serializeDOL(
+    {
+      textOffsets: [],
+      dataOffsets: [],
+      textAddresses: [],
+      dataAddresses: [],
+      textSizes: [],
+      dataSizes: [],
+      bssAddress: 0,
+      bssSize: 0,
+      entryPoint: EXPECTED_ENTRY_POINT,
+    },
+    {
+      textSections: [{ offset: 0, address: EXPECTED_ENTRY_POINT, size: image.byteLength, data: image }],
+      dataSections: [],
+      totalSize: image.byteLength,
+    }
+  );
+
+  return {
+    header: wrapped.header.slice(),
+    metadata,
+    imageSize: wrapped.totalSize,
+    image,
+    dol,
+  };
+}
+
+/**
+ * Reassembles contiguous flash contents starting at the payload base
+ *
+ * Special blocks (e.g. the RP2350 absolute block) are not part of the
+ * payload and are skipped.
+ *
+ * @param uf2Data - UF2-encoded data
+ * @param payloadBase - IPLBOOT header address
+ * @returns Flash bytes from payloadBase to the end of the last payload block
+ */
+function readPayloadRegion(uf2Data: Uint8Array, payloadBase: number): Uint8Array {
+  const blocks = parseUF2Blocks(uf2Data)
+    .filter(b => !isSpecialBlock(b) && b.targetAddr >= payloadBase)
+    .sort((a, b) => a.targetAddr - b.targetAddr);
+
+  if (blocks.length === 0 || blocks[0].targetAddr !== payloadBase) {
+    throw new Error(
+      `No payload found at 0x${payloadBase.toString(16)}`
+    );
+  }
+
+  const last = blocks[blocks.length - 1];
+  const result = new Uint8Array(last.targetAddr + last.payloadSize - payloadBase);
+  let expectedAddr = payloadBase;
+
+  for (const block of blocks) {
+    if (block.targetAddr !== expectedAddr) {
+      throw new Error(
+        `Gap in payload region: expected block at 0x${expectedAddr.toString(16)}, ` +
+        `found 0x${block.targetAddr.toString(16)}`
+      );
+    }
+
+    result.set(block.data.subarray(0, block.payloadSize), block.targetAddr - payloadBase);
+    expectedAddr = block.targetAddr + block.payloadSize;
+  }
+
+  return result;
+}
@@ -14,15 +14,50 @@
  */
 
 import { scramble } from './scrambler';
+import { calculateCRC32 } from '../utils/crc32';
 
 export interface WrappedPayload {
-  header: Uint8Array;    // IPLBOOT header (12 bytes: "IPLBOOT " + 4-byte size)
+  header: Uint8Array;    // IPLBOOT header (32 bytes, see createIPLBOOTHeader)
   payload: Uint8Array;   // Scrambled data + padding + "PICO" signature
   totalSize: number;     // header.length + payload.length
 }
 
+/**
+ * Optional metadata stored in the IPLBOOT header
+ */
+export interface IPLBOOTMetadata {
+  name?: string;         // Payload name (ASCII, max 10 bytes)
+  timestamp?: number;    // Build time (Unix seconds)
+  crc32?: number;        // CRC32 of scrambled data + padding
+  padding?: number;      // Alignment bytes after the data (0-3)
+}
+
+/**
+ * Parsed IPLBOOT header
+ */
+export interface IPLBOOTHeader extends IPLBOOTMetadata {
+  size: number;          // Total image size (header + payload)
+  version: number;       // 0 = legacy (zero padding), 1 = metadata
+}
+
+export interface WrapOptions {
+  name?: string;
+  timestamp?: number;
+}
+
 const ALIGN_SIZE = 4;
 const IPLBOOT_HEADER_SIZE = 32; // Full header size used in size calculation
+export const IPLBOOT_MAGIC = 'IPLBOOT ';
+const IPLBOOT_VERSION = 1;
+const NAME_SIZE = 10;
+export const SIGNATURE_SIZE = 4;
+
+// Metadata flags (header offset 0x0D)
+const FLAG_NAME = 0x01;
+const FLAG_TIMESTAMP = 0x02;
+const FLAG_CRC32 = 0x04;
+const FLAG_PADDING = 0x08;
+const PADDING_SHIFT = 4;    // Padding count in flag bits 4-5
 
 /**
  * Wraps scrambled payload in PicoBoot protocol format
@@ -31,18 +66,19 @@ const IPLBOOT_HEADER_SIZE = 32; // Full header size used in size calculation
  * 1. Scrambles the raw data using the bootrom algorithm
  * 2. Aligns to 4-byte boundary with zero padding
  * 3. Adds "PICO" signature footer
- * 4. Generates IPLBOOT header with size field
+ * 4. Generates IPLBOOT header with size field and metadata
  *
  * @param data - Raw unscrambled payload data
+ * @param options - Optional payload name and build timestamp
  * @returns Wrapped payload ready for PicoBoot firmware
  */
-export function wrapPayload(data: Uint8Array): WrappedPayload {
+export function wrapPayload(data: Uint8Array, options: WrapOptions = {}): WrappedPayload {
   // Step 1: Scramble the data
   const scrambled = scramble(data);
 
   // Step 2: Align to 4 bytes and add "PICO" signature
-  const alignedSize = Math.ceil(scrambled.byteLength / ALIGN_SIZE) * ALIGN_SIZE;
-  const withSignature = new Uint8Array(alignedSize + 4);
+  const alignedSize = alignToWord(scrambled.byteLength);
+  const withSignature = new Uint8Array(alignedSize + SIGNATURE_SIZE);
 
   withSignature.set(scrambled, 0);
   // Padding is implicit (zeros from new Uint8Array)
@@ -53,7 +89,11 @@ export function wrapPayload(data: Uint8Array): WrappedPayload {
   // Step 3: Generate IPLBOOT header
   // Size includes the payload + signature + full 32-byte header
   const totalImageSize = withSignature.byteLength + IPLBOOT_HEADER_SIZE;
-  const header = createIPLBOOTHeader(totalImageSize);
+  const header = createIPLBOOTHeader(totalImageSize, {
+    ...options,
+    crc32: calculateCRC32(withSignature.subarray(0, alignedSize)),
+    padding: alignedSize - scrambled.byteLength,
+  });
 
   return {
     header,
@@ -65,19 +105,26 @@ export function wrapPayload(data: Uint8Array): WrappedPayload {
 /**
  * Creates IPLBOOT header
  *
- * Format (returned 12 bytes, but size field assumes 32 bytes):
+ * Format (32 bytes, all multi-byte values big-endian):
  * - 0x00-0x07: "IPLBOOT " (8 bytes, ASCII)
- * - 0x08-0x0B: Size (4 bytes, big-endian)
+ * - 0x08-0x0B: Size (4 bytes) - total image size including this header
+ * - 0x0C:      Header version (1 = metadata, 0 = legacy zero padding)
+ * - 0x0D:      Metadata flags (0x01 name, 0x02 timestamp, 0x04 CRC32,
+ *              0x08 padding count in bits 4-5)
+ * - 0x0E-0x11: CRC32 of scrambled data + padding (excludes "PICO")
+ * - 0x12-0x15: Build timestamp (Unix seconds)
+ * - 0x16-0x1F: Payload name (10 bytes, ASCII, zero-padded)
  *
- * Note: Original Python creates 32-byte header with 20 bytes padding.
- * We return only the significant 12 bytes, but the size field includes
- * the full 32-byte header size for compatibility.
+ * The original process_ipl.py leaves bytes 0x0C-0x1F zeroed, which
+ * parses as a version 0 header without metadata.
  *
  * @param size - Total image size (payload + full 32-byte header)
- * @returns IPLBOOT header (12 bytes)
+ * @param metadata - Optional metadata fields
+ * @returns IPLBOOT header (32 bytes)
  */
-export function createIPLBOOTHeader(size: number): Uint8Array {
-  const header = new Uint8Array(12);
+export function createIPLBOOTHeader(size: number, metadata: IPLBOOTMetadata = {}): Uint8Array {
+  const header = new Uint8Array(IPLBOOT_HEADER_SIZE);
+  const view = new DataView(header.buffer);
 
   // "IPLBOOT " (8 bytes) - note the trailing space
   header[0] = 0x49; // 'I'
@@ -90,20 +137,146 @@ export function createIPLBOOTHeader(size: number): Uint8Array {
   header[7] = 0x20; // ' ' (space)
 
   // Size (4 bytes, big-endian)
-  const view = new DataView(header.buffer);
   view.setUint32(8, size, false); // false = big-endian
 
+  // Version and metadata
+  let flags = 0;
+
+  if (metadata.crc32 !== undefined) {
+    view.setUint32(0x0E, metadata.crc32, false);
+    flags |= FLAG_CRC32;
+  }
+
+  if (metadata.timestamp !== undefined) {
+    view.setUint32(0x12, metadata.timestamp, false);
+    flags |= FLAG_TIMESTAMP;
+  }
+
+  if (metadata.name) {
+    const name = new TextEncoder().encode(metadata.name);
+    if (name.some(b => b > 0x7F)) {
+      throw new Error(`Payload name must be ASCII: "${metadata.name}"`);
+    }
+    header.set(name.subarray(0, NAME_SIZE), 0x16);
+    flags |= FLAG_NAME;
+  }
+
+  if (metadata.padding !== undefined) {
+    if (!Number.isInteger(metadata.padding) || metadata.padding < 0 || metadata.padding >= ALIGN_SIZE) {
+      throw new Error(`Invalid payload padding: ${metadata.padding} (0-${ALIGN_SIZE - 1})`);
+    }
+    flags |= FLAG_PADDING | (metadata.padding << PADDING_SHIFT);
+  }
+
+  header[0x0C] = IPLBOOT_VERSION;
+  header[0x0D] = flags;
+
   return header;
 }
 
+/**
+ * Parses IPLBOOT header
+ *
+ * @param header - IPLBOOT header (32 bytes)
+ * @returns Size, version and metadata present in the header
+ * @throws Error if magic is wrong, header is too small or version is unknown
+ */
+export function parseIPLBOOTHeader(header: Uint8Array): IPLBOOTHeader {
+  if (header.byteLength < IPLBOOT_HEADER_SIZE) {
+    throw new Error(`Header too small: ${header.byteLength} bytes (need at least ${IPLBOOT_HEADER_SIZE})`);
+  }
+
+  const magic = new TextDecoder().decode(header.slice(0, 8));
+  if (magic !== IPLBOOT_MAGIC) {
+    throw new Error(`Invalid IPLBOOT header magic: "${magic}"`);
+  }
+
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const version = header[0x0C];
+  const result: IPLBOOTHeader = {
+    size: view.getUint32(8, false),
+    version,
+  };
+
+  if (version === 0) {
+    return result;
+  }
+
+  if (version !== IPLBOOT_VERSION) {
+    throw new Error(`Unsupported IPLBOOT header version: ${version}`);
+  }
+
+  const flags = header[0x0D];
+
+  if (flags & FLAG_CRC32) {
+    result.crc32 = view.getUint32(0x0E, false);
+  }
+
+  if (flags & FLAG_TIMESTAMP) {
+    result.timestamp = view.getUint32(0x12, false);
+  }
+
+  if (flags & FLAG_PADDING) {
+    result.padding = (flags >> PADDING_SHIFT) & (ALIGN_SIZE - 1);
+  }
+
+  if (flags & FLAG_NAME) {
+    const name = header.slice(0x16, 0x16 + NAME_SIZE);
+    const end = name.indexOf(0);
+    result.name = new TextDecoder().decode(end === -1 ? name : name.subarray(0, end));
+  }
+
+  return result;
+}
+/**
+ * Calculates the flash footprint of a wrapped payload
+ *
+ * Matches serializeWrappedPayload() output without scrambling:
+ * header + data + 4-byte alignment padding + "PICO" signature.
+ *
+ * @param dataSize - Raw payload size in bytes
+ * @returns Wrapped image size in bytes
+ */
+export function calculateWrappedSize(dataSize: number): number {
+  return IPLBOOT_HEADER_SIZE + alignToWord(dataSize) + SIGNATURE_SIZE;
+}
+
+/**
+ * Helper: Round size up to the 4-byte alignment
+ */
+function alignToWord(size: number): number {
+  return Math.ceil(size / ALIGN_SIZE) * ALIGN_SIZE;
+}
+
+/**
+ * Serializes wrapped payload as stored in flash
+ *
+ * Layout matches process_ipl.py output:
+ * - 0x00-0x1F: IPLBOOT header (32 bytes, metadata in bytes 0x0C-0x1F)
+ * - 0x20-...:  Scrambled data + padding + "PICO" signature
+ *
+ * @param payload - Wrapped payload
+ * @returns Contiguous flash image (IPLBOOT size field == byteLength)
+ */
+export function serializeWrappedPayload(payload: WrappedPayload): Uint8Array {
+  const result = new Uint8Array(IPLBOOT_HEADER_SIZE + payload.payload.byteLength);
+
+  result.set(payload.header, 0);
+  // Header padding is implicit (zeros from new Uint8Array)
+  result.set(payload.payload, IPLBOOT_HEADER_SIZE);
+
+  return result;
+}
+
 /**
  * Validates wrapped payload structure
  *
  * Checks:
  * - IPLBOOT header magic is correct
- * - Header size is 12 bytes
+ * - Header size is 32 bytes
  * - PICO signature is present at end
  * - Total size is consistent
+ * - CRC32 matches scrambled data (if present in header)
  *
  * @param payload - Wrapped payload to validate
  * @throws Error if validation fails
@@ -111,17 +284,17 @@ export function createIPLBOOTHeader(size: number): Uint8Array {
 export function validateWrappedPayload(payload: WrappedPayload): void {
   // Check header magic
   const magic = new TextDecoder().decode(payload.header.slice(0, 8));
-  if (magic !== 'IPLBOOT ') {
+  if (magic !== IPLBOOT_MAGIC) {
     throw new Error(`Invalid IPLBOOT header magic: "${magic}"`);
   }
 
   // Check header size
-  if (payload.header.byteLength !== 12) {
-    throw new Error(`Invalid header size: ${payload.header.byteLength} (expected 12)`);
+  if (payload.header.byteLength !== IPLBOOT_HEADER_SIZE) {
+    throw new Error(`Invalid header size: ${payload.header.byteLength} (expected ${IPLBOOT_HEADER_SIZE})`);
   }
 
   // Check PICO signature at end
-  const sig = payload.payload.slice(-4);
+  const sig = payload.payload.slice(-SIGNATURE_SIZE);
   const sigStr = new TextDecoder().decode(sig);
   if (sigStr !== 'PICO') {
     throw new Error(`Invalid PICO signature: "${sigStr}"`);
@@ -134,6 +307,66 @@ export function validateWrappedPayload(payload: WrappedPayload): void {
       `Total size mismatch: ${payload.totalSize} vs ${expectedTotal}`
     );
   }
+
+  // Check CRC32
+  const header = parseIPLBOOTHeader(payload.header);
+  if (header.crc32 !== undefined) {
+    const actual = calculateCRC32(payload.payload.subarray(0, -SIGNATURE_SIZE));
+    if (actual !== header.crc32) {
+      throw new Error(
+        `CRC32 mismatch: header 0x${header.crc32.toString(16)}, data 0x${actual.toString(16)}`
+      );
+    }
+  }
+}
+
+/**
+ * Parses a contiguous IPLBOOT image as stored in flash
+ *
+ * Inverse of serializeWrappedPayload(). Bytes past the IPLBOOT size
+ * (e.g. UF2 block padding) are ignored. The returned header and payload
+ * are views into `image`, not copies.
+ *
+ * Checks:
+ * - IPLBOOT header magic and version
+ * - Size field fits in the image and is 4-byte aligned
+ * - PICO signature is present at the end of the image
+ * - CRC32 matches scrambled data (if present in header)
+ *
+ * @param image - Flash image starting with the IPLBOOT header
+ * @returns Wrapped payload (views into `image`)
+ * @throws Error if the image is not a valid IPLBOOT image
+ */
+export function parseWrappedPayload(image: Uint8Array): WrappedPayload {
+  if (image.byteLength < IPLBOOT_HEADER_SIZE + SIGNATURE_SIZE) {
+    throw new Error(
+      `IPLBOOT image too small: ${image.byteLength} bytes (need at least ${IPLBOOT_HEADER_SIZE + SIGNATURE_SIZE})`
+    );
+  }
+
+  const header = image.subarray(0, IPLBOOT_HEADER_SIZE);
+  parseIPLBOOTHeader(header);
+
+  const size = extractPayloadSize(header);
+  if (size < IPLBOOT_HEADER_SIZE + SIGNATURE_SIZE || size > image.byteLength) {
+    throw new Error(
+      `Invalid IPLBOOT size: ${size} bytes (image holds ${image.byteLength} bytes)`
+    );
+  }
+
+  if (size % ALIGN_SIZE !== 0) {
+    throw new Error(`IPLBOOT size not ${ALIGN_SIZE}-byte aligned: ${size} bytes`);
+  }
+
+  const wrapped: WrappedPayload = {
+    header,
+    payload: image.subarray(IPLBOOT_HEADER_SIZE, size),
+    totalSize: size,
+  };
+
+  validateWrappedPayload(wrapped);
+
+  return wrapped;
 }
 
 /**
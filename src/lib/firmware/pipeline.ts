@@ -0,0 +1,188 @@
+/**
+ * Firmware Pipeline - Executable to Flashable Firmware
+ *
+ * Runs the complete payload build synchronously:
+ * 1. Parse & validate executable (DOL or ELF)
+ * 2. Build memory load image
+ * 3. Check payload size budget, scramble + wrap in PicoBoot protocol
+ * 4. Encode payload to UF2
+ * 5. Merge with base firmware (or replace the payload of a built firmware)
+ * 6. Verify merged UF2 (inspectUF2)
+ *
+ * This module has no DOM dependencies so it can run both on the main
+ * thread and inside the firmware Web Worker (see firmware-builder.ts).
+ */
+
+import {
+  inspectDOL,
+  inspectDOLHeader,
+  extractDOLSections,
+  buildLoadImage,
+  EXPECTED_ENTRY_POINT,
+  type DOLReport,
+} from './dol-parser';
+import { isELF, loadELF } from './elf-parser';
+import { wrapPayload, serializeWrappedPayload, calculateWrappedSize } from './payload-wrapper';
+import {
+  encodeToUF2,
+  getFamilyId,
+  UF2_EXTENSION_TAG_TYPES,
+  type Platform,
+} from './uf2-encoder';
+import {
+  mergeUF2,
+  replacePayload,
+  inspectUF2,
+  getPayloadFamily,
+  fitTextTag,
+  type UF2Report,
+} from './uf2-merger';
+import {
+  getDefaultFlashLayout,
+  checkPayloadBudget,
+  type FlashLayout,
+  type PayloadBudget,
+} from './flash-layout';
+
+/**
+ * Pipeline stages reported through progress callbacks
+ */
+export type FirmwareBuildStage = 'process' | 'encode' | 'merge' | 'verify';
+
+/**
+ * Build mode
+ * - 'build': merge the payload into PicoBoot base firmware
+ * - 'update': replace the payload of an already built PicoBoot firmware
+ */
+export type FirmwareBuildMode = 'build' | 'update';
+
+/**
+ * Input of the firmware pipeline
+ */
+export interface FirmwareBuildRequest {
+  executable: Uint8Array;     // Payload DOL or ELF
+  baseFirmware: Uint8Array;   // PicoBoot base firmware (UF2), or built firmware in 'update' mode
+  platform: Platform;
+  mode?: FirmwareBuildMode;   // Default: 'build'
+  layout?: FlashLayout;       // Board flash layout (default: platform default)
+  payloadName?: string;       // Stored in IPLBOOT header (max 10 ASCII chars)
+  timestamp?: number;         // Build time stored in IPLBOOT header (Unix seconds)
+  versionTag?: string;        // UF2 version tag, e.g. "PicoBoot v1.0 + gekkoboot v2.0" (shortened to fit)
+}
+
+/**
+ * Output of the firmware pipeline
+ */
+export interface FirmwareBuildResult {
+  data: Uint8Array;           // Merged UF2 firmware
+  totalBlocks: number;
+  baseBlocks: number;
+  payloadBlocks: number;
+  report: DOLReport;          // Payload inspection report (ELF: synthesized DOL header)
+  uf2Report: UF2Report;       // Inspection of the merged UF2
+  budget: PayloadBudget;      // Payload window usage
+}
+
+/**
+ * Error thrown when the payload DOL (or ELF) fails inspection
+ */
+export class PayloadValidationError extends Error {
+  constructor(public readonly report: DOLReport) {
+    const first = report.findings.find(f => f.severity === 'error');
+    super(`Payload has ${report.errorCount} problem(s): ${first?.message}`);
+    this.name = 'PayloadValidationError';
+  }
+}
+
+/**
+ * Runs the firmware pipeline
+ *
+ * @param request - Executable, base firmware and platform
+ * @param onProgress - Called when a stage starts
+ * @returns Merged firmware
+ * @throws {PayloadValidationError} If the DOL or ELF has errors
+ * @throws {PayloadTooLargeError} If the payload does not fit the layout
+ * @throws Error if the merged UF2 fails verification
+ */
+export function runFirmwarePipeline(
+  request: FirmwareBuildRequest,
+  onProgress?: (stage: FirmwareBuildStage) => void
+): FirmwareBuildResult {
+  const { executable, baseFirmware, platform, payloadName, timestamp, versionTag } = request;
+  const layout = request.layout ?? getDefaultFlashLayout(platform);
+
+  // Stage 1: Parse, lay out in memory, scramble + wrap
+  onProgress?.('process');
+
+  let report: DOLReport;
+  let loadImage;
+
+  if (isELF(executable)) {
+    // Same layout checks as a DOL, on the header synthesized from the segments
+    const elf = loadELF(executable);
+    report = inspectDOLHeader(elf.header, executable.byteLength);
+    if (!report.valid) {
+      throw new PayloadValidationError(report);
+    }
+    loadImage = buildLoadImage(elf.header, elf.sections);
+  } else {
+    report = inspectDOL(executable);
+    if (!report.valid || !report.header) {
+      throw new PayloadValidationError(report);
+    }
+    loadImage = buildLoadImage(report.header, extractDOLSections(executable, report.header));
+  }
+
+  // PicoBoot copies the image to the entry point and jumps to its first byte
+  if (loadImage.baseAddress !== EXPECTED_ENTRY_POINT) {
+    throw new Error(
+      `Payload image starts at 0x${loadImage.baseAddress.toString(16)}, ` +
+      `expected the load address 0x${EXPECTED_ENTRY_POINT.toString(16)}`
+    );
+  }
+
+  // Fail before scrambling if the wrapped payload cannot fit
+  const budget = checkPayloadBudget(calculateWrappedSize(loadImage.data.byteLength), layout);
+
+  const payloadImage = serializeWrappedPayload(
+    wrapPayload(loadImage.data, { name: payloadName, timestamp })
+  );
+
+  // Stage 2: Encode payload to UF2
+  onProgress?.('encode');
+
+  // Payload family follows the base (e.g. RP2350 RISC-V builds)
+  const payloadUF2 = encodeToUF2(payloadImage, {
+    familyId: getPayloadFamily(baseFirmware, getFamilyId(platform)),
+    baseAddress: layout.payloadBase,
+    layout,
+  });
+
+  // Stage 3: Merge with base firmware
+  onProgress?.('merge');
+
+  // Labels include file names, shorten them to the room in block 0
+  const tag = versionTag ? fitTextTag(baseFirmware, UF2_EXTENSION_TAG_TYPES.VERSION, versionTag) : null;
+
+  const merge = request.mode === 'update' ? replacePayload : mergeUF2;
+  const merged = merge(baseFirmware, payloadUF2.data, {
+    tags: tag ? [tag] : [],
+    layout,
+  });
+
+  // Stage 4: Verify merged firmware
+  onProgress?.('verify');
+
+  const uf2Report = inspectUF2(merged.data);
+  if (!uf2Report.valid) {
+    const first = uf2Report.findings.find(f => f.severity === 'error');
+    throw new Error(`Merged firmware failed verification: ${first?.message}`);
+  }
+
+  return {
+    ...merged,
+    report,
+    uf2Report,
+    budget,
+  };
+}
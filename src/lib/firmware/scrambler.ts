@@ -5,114 +5,218 @@
  * This module contains ONLY the cryptographic transformation using shift registers.
  *
  * The algorithm uses 3 shift registers (t, u, v) with polynomial feedback
- * to generate a pseudo-random bit stream that scrambles input data.
+ * to generate a pseudo-random bit stream that is XORed with the input data.
  *
- * Prepending 0x720 (1824) zero bytes before scrambling initializes the
- * shift registers to produce the correct scrambling sequence.
+ * The keystream does not depend on the data, so it is generated once,
+ * cached, and extended lazily when a larger payload comes along. The
+ * first 0x720 (1824) keystream bytes are skipped; the original tool did
+ * this by prepending 0x720 zero bytes before scrambling.
  *
  * Reference: https://github.com/webhdx/PicoBoot/blob/main/tools/process_ipl.py
  * Original reverse engineering by: segher
  */
 
 const PREPEND_SIZE = 0x720; // 1824 bytes for register initialization
+const INITIAL_KEYSTREAM_SIZE = 64 * 1024;
 
 /**
- * Scrambles data using the bootrom descrambler algorithm
+ * Lazily extended keystream
  *
- * This is the core cryptographic transformation. It:
- * 1. Prepends 0x720 zero bytes to initialize shift registers
- * 2. Applies XOR-based scrambling using 3 shift registers
- * 3. Strips the prepended bytes
+ * Holds the shift register state so that extending the keystream
+ * continues exactly where the previous generation stopped.
+ */
+class Keystream {
+  private bytes = new Uint8Array(0);
+  private length = 0;
+
+  // Initialize Linear Feedback Shift Registers (LFSRs)
+  private t = 0x2953;
+  private u = 0xD9C2;
+  private v = 0x3FF1;
+  private x = 1; // Output bit
+
+  constructor() {
+    // Skip register initialization bytes
+    this.ensure(PREPEND_SIZE);
+  }
+
+  /**
+   * Gets keystream bytes for data positions [position, position + length)
+   */
+  get(position: number, length: number): Uint8Array {
+    const start = PREPEND_SIZE + position;
+    this.ensure(start + length);
+    return this.bytes.subarray(start, start + length);
+  }
+
+  /**
+   * Extends the keystream to at least `size` bytes
+   */
+  private ensure(size: number): void {
+    if (size <= this.length) {
+      return;
+    }
+
+    if (size > this.bytes.byteLength) {
+      // Grow capacity geometrically to keep extensions cheap
+      const capacity = Math.max(size, this.bytes.byteLength * 2, INITIAL_KEYSTREAM_SIZE);
+      const grown = new Uint8Array(capacity);
+      grown.set(this.bytes.subarray(0, this.length));
+      this.bytes = grown;
+    }
+
+    this.generate(size);
+  }
+
+  /**
+   * Core shift register algorithm
+   *
+   * Uses 3 Linear Feedback Shift Registers (LFSRs):
+   * - Register t: Initial 0x2953, feedback polynomial 0xA740
+   * - Register u: Initial 0xD9C2, feedback polynomial 0xFB10
+   * - Register v: Initial 0x3FF1, feedback polynomial 0xB3D0
+   *
+   * Generates pseudo-random bits through XOR operations and conditional
+   * register shifts, 8 bits per keystream byte.
+   */
+  private generate(size: number): void {
+    let { t, u, v, x } = this;
+
+    for (let it = this.length; it < size; it++) {
+      let acc = 0; // Bit accumulator
+
+      for (let bit = 0; bit < 8; bit++) {
+        // Extract lowest bits from each register
+        const t0 = t & 1;
+        const t1 = (t >> 1) & 1;
+        const u0 = u & 1;
+        const u1 = (u >> 1) & 1;
+        const v0 = v & 1;
+
+        // Generate output bit through XOR operations
+        x ^= t1 ^ v0;
+        x ^= u0 | u1;
+        x ^= (t0 ^ u1 ^ v0) & (t0 ^ u0);
+
+        // Shift register v (conditional on t0 == u0)
+        if (t0 === u0) {
+          v >>= 1;
+          if (v0) {
+            v ^= 0xB3D0; // Polynomial feedback
+          }
+        }
+
+        // Shift register u (conditional on t0 == 0)
+        if (t0 === 0) {
+          u >>= 1;
+          if (u0) {
+            u ^= 0xFB10; // Polynomial feedback
+          }
+        }
+
+        // Shift register t (always)
+        t >>= 1;
+        if (t0) {
+          t ^= 0xA740; // Polynomial feedback
+        }
+
+        // Accumulate 8 bits into a byte
+        acc = ((acc << 1) | x) & 0xFF;
+      }
+
+      this.bytes[it] = acc;
+    }
+
+    this.t = t;
+    this.u = u;
+    this.v = v;
+    this.x = x;
+    this.length = size;
+  }
+}
+
+// Shared keystream cache
+const keystream = new Keystream();
+
+/**
+ * Scrambles data using the bootrom descrambler algorithm
  *
- * The output is pure scrambled data with NO headers or signatures.
+ * XORs the data with the cached keystream. The output is pure scrambled
+ * data with NO headers or signatures.
  *
  * @param data - Raw data to scramble
  * @returns Scrambled data (same length as input)
  */
 export function scramble(data: Uint8Array): Uint8Array {
-  // Step 1: Prepend 0x720 zero bytes for register initialization
-  const prepended = new Uint8Array(PREPEND_SIZE + data.byteLength);
-  prepended.set(data, PREPEND_SIZE);
-
-  // Step 2: Apply scrambling algorithm
-  const scrambled = applyShiftRegisterScrambling(prepended);
+  return xorKeystream(data, 0);
+}
 
-  // Step 3: Strip prepended bytes and return
-  return scrambled.slice(PREPEND_SIZE);
+/**
+ * Descrambles data produced by scramble()
+ *
+ * The cipher XORs data with a fixed keystream, so descrambling is the
+ * same operation as scrambling. This alias exists to make intent clear
+ * at call sites that decode payloads.
+ *
+ * @param data - Scrambled data
+ * @returns Original data (same length as input)
+ */
+export function descramble(data: Uint8Array): Uint8Array {
+  return scramble(data);
 }
 
 /**
- * Core shift register scrambling algorithm
+ * Creates a streaming scrambler
  *
- * Uses 3 Linear Feedback Shift Registers (LFSRs):
- * - Register t: Initial 0x2953, feedback polynomial 0xA740
- * - Register u: Initial 0xD9C2, feedback polynomial 0xFB10
- * - Register v: Initial 0x3FF1, feedback polynomial 0xB3D0
+ * Chunks may have any size; the keystream position carries over between
+ * chunks, so the concatenated output equals scramble() of the whole input.
  *
- * Processes data bit-by-bit, generating pseudo-random bits through
- * XOR operations and conditional register shifts.
+ * @returns TransformStream producing scrambled chunks
  *
- * @param data - Data with prepended zeros
- * @returns Scrambled data
+ * @example
+ * ```typescript
+ * const scrambled = payloadStream.pipeThrough(createScrambleStream());
+ * ```
  */
-function applyShiftRegisterScrambling(data: Uint8Array): Uint8Array {
-  const result = new Uint8Array(data);
-
-  let acc = 0;    // Bit accumulator
-  let nacc = 0;   // Accumulator bit count
+export function createScrambleStream(): TransformStream<Uint8Array, Uint8Array> {
+  let position = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(xorKeystream(chunk, position));
+      position += chunk.byteLength;
+    },
+  });
+}
 
-  // Initialize Linear Feedback Shift Registers (LFSRs)
-  let t = 0x2953;
-  let u = 0xD9C2;
-  let v = 0x3FF1;
-
-  let x = 1;      // Output bit
-  let it = 0;     // Data index
-
-  while (it < result.length) {
-    // Extract lowest bits from each register
-    const t0 = t & 1;
-    const t1 = (t >> 1) & 1;
-    const u0 = u & 1;
-    const u1 = (u >> 1) & 1;
-    const v0 = v & 1;
-
-    // Generate output bit through XOR operations
-    x ^= t1 ^ v0;
-    x ^= u0 | u1;
-    x ^= (t0 ^ u1 ^ v0) & (t0 ^ u0);
-
-    // Shift register v (conditional on t0 == u0)
-    if (t0 === u0) {
-      v >>= 1;
-      if (v0) {
-        v ^= 0xB3D0; // Polynomial feedback
-      }
-    }
+/**
+ * XORs data with keystream starting at the given data position
+ *
+ * Works on 32-bit words where the keystream slice is word-aligned and
+ * falls back to bytes for the remainder.
+ *
+ * @param data - Input data
+ * @param position - Keystream position of the first byte
+ * @returns New array with XORed data
+ */
+function xorKeystream(data: Uint8Array, position: number): Uint8Array {
+  const result = new Uint8Array(data);
+  const key = keystream.get(position, data.byteLength);
 
-    // Shift register u (conditional on t0 == 0)
-    if (t0 === 0) {
-      u >>= 1;
-      if (u0) {
-        u ^= 0xFB10; // Polynomial feedback
-      }
-    }
+  let i = 0;
+  if (key.byteOffset % 4 === 0) {
+    const wordCount = data.byteLength >>> 2;
+    const resultWords = new Uint32Array(result.buffer, 0, wordCount);
+    const keyWords = new Uint32Array(key.buffer, key.byteOffset, wordCount);
 
-    // Shift register t (always)
-    t >>= 1;
-    if (t0) {
-      t ^= 0xA740; // Polynomial feedback
+    for (let w = 0; w < wordCount; w++) {
+      resultWords[w] ^= keyWords[w];
     }
+    i = wordCount * 4;
+  }
 
-    // Accumulate 8 bits into a byte
-    nacc = (nacc + 1) % 256;
-    acc = (acc * 2 + x) % 256;
-
-    if (nacc === 8) {
-      result[it] ^= acc; // XOR accumulated byte with data
-      nacc = 0;
-      it += 1;
-    }
+  for (; i < data.byteLength; i++) {
+    result[i] ^= key[i];
   }
 
   return result;
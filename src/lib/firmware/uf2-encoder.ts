@@ -1,19 +1,22 @@
 /**
  * UF2 Encoder - Universal Flash Format
  *
- * Wrapper around uf2gen library with PicoBoot-specific functionality.
- * Adds support for RP2350 family ID and provides type-safe API.
+ * Builds UF2 blocks directly (no RP2040-only library workaround), so any
+ * family ID can be targeted.
  *
  * UF2 Format:
  * - 512-byte blocks
  * - Magic numbers: 0x0A324655, 0x9E5D5157, 0x0AB16F30
- * - 256-byte payload per block
+ * - 256-byte payload per block (up to 476 for non-flash targets)
  * - Family ID for platform targeting
+ * - Optional MD5 checksum in the last 24 bytes of the data area
+ * - Optional extension tags (version, description, ...) after the payload
  *
  * Reference: https://github.com/microsoft/uf2
  */
 
-import { convertBinToUf2, getUf2FamilyId } from 'uf2gen';
+import { calculateMD5 } from '../utils/md5';
+import type { FlashLayout } from './flash-layout';
 
 /**
  * Platform types supported by PicoBoot
@@ -26,10 +29,69 @@ export type Platform = 'RP2040' | 'RP2350';
 export const UF2_FAMILY_IDS = {
   RP2040: 0xE48BFF56,        // Raspberry Pi RP2040
   RP2350: 0xE48BFF59,        // Raspberry Pi RP2350 (ARM Secure)
+  RP2350_RISCV: 0xE48BFF5A,  // Raspberry Pi RP2350 (RISC-V)
+  ABSOLUTE: 0xE48BFF57,      // Absolute address, written regardless of partitions (RP2350)
 } as const;
 
 /**
- * Memory addresses for PicoBoot firmware
+ * UF2 block flags
+ */
+export const UF2_FLAGS = {
+  NOT_MAIN_FLASH: 0x00000001,         // Block should be skipped when writing flash
+  FILE_CONTAINER: 0x00001000,         // Block is part of a file container
+  FAMILY_ID_PRESENT: 0x00002000,      // familyID field is set
+  MD5_CHECKSUM_PRESENT: 0x00004000,   // Last 24 bytes of data hold address, length and MD5
+  EXTENSION_TAGS_PRESENT: 0x00008000, // Extension tags follow the payload
+} as const;
+
+/**
+ * UF2 extension tag types
+ */
+export const UF2_EXTENSION_TAG_TYPES = {
+  VERSION: 0x9FC7BC,          // Firmware version (UTF-8 string)
+  DESCRIPTION: 0x650D9D,      // Device description (UTF-8 string)
+  PAGE_SIZE: 0x0BE9F7,        // Page size of target device (uint32)
+  SHA2: 0xB46DB0,             // SHA-2 checksum of firmware
+  DEVICE_TYPE_ID: 0xC8A729,   // Device type identifier (uint32 or uint64)
+} as const;
+
+/**
+ * UF2 extension tag
+ */
+export interface UF2ExtensionTag {
+  type: number;               // 24-bit tag type
+  data: Uint8Array;           // Tag data (max 251 bytes)
+}
+
+/**
+ * MD5 checksum trailer (last 24 bytes of the data area)
+ */
+export interface UF2ChecksumTrailer {
+  address: number;            // Start address of checksummed region
+  length: number;             // Length of checksummed region
+  md5: Uint8Array;            // MD5 digest (16 bytes)
+}
+
+/**
+ * UF2 block layout
+ */
+export const UF2_BLOCK_SIZE = 512;
+export const UF2_DATA_SIZE = 476;       // Data area (payload + padding/trailers)
+export const UF2_PAGE_SIZE = 256;       // Default payload size (one flash page)
+
+const UF2_MAGIC_START0 = 0x0A324655;
+const UF2_MAGIC_START1 = 0x9E5D5157;
+const UF2_MAGIC_END = 0x0AB16F30;
+const UF2_HEADER_SIZE = 32;
+const MD5_TRAILER_SIZE = 24;
+const MD5_TRAILER_OFFSET = UF2_DATA_SIZE - MD5_TRAILER_SIZE;
+export const UF2_TAG_HEADER_SIZE = 4;   // Extension tag header (size + type)
+export const UF2_MAX_TAG_SIZE = 0xFF;   // Extension tag size including header
+
+/**
+ * Memory addresses for PicoBoot firmware on a 2 MB Raspberry Pi Pico
+ *
+ * Other boards: see FlashLayout profiles in flash-layout.ts.
  */
 export const MEMORY_LAYOUT = {
   FLASH_BASE: 0x10000000,     // Flash base address
@@ -40,10 +102,27 @@ export const MEMORY_LAYOUT = {
 
 /**
  * Options for UF2 encoding
+ *
+ * Either `platform` or `familyId` must be given; `familyId` wins.
  */
 export interface UF2EncodeOptions {
-  platform: Platform;
+  platform?: Platform;
+  familyId?: number;          // Arbitrary family ID (overrides platform)
   baseAddress: number;
+  payloadSize?: 256 | 476;    // Bytes per block (default: 256)
+  notMainFlash?: boolean;     // Set the not-main-flash flag
+  md5?: boolean;              // Add MD5 checksum trailer (256-byte payloads only)
+  fillByte?: number;          // Fill for unused bytes in partial blocks (default: 0x00)
+  tags?: UF2ExtensionTag[];   // Extension tags (stored in the first block)
+  layout?: FlashLayout;       // Reject flash blocks outside this board's flash
+}
+
+/**
+ * Contiguous range of data at a target address
+ */
+export interface UF2Range {
+  address: number;
+  data: Uint8Array;
 }
 
 /**
@@ -61,36 +140,115 @@ export interface UF2EncodeResult {
  * Encodes binary data to UF2 format
  *
  * @param data - Binary data to encode
- * @param options - Encoding options (platform, base address)
+ * @param options - Encoding options (platform or family ID, base address)
  * @returns UF2-encoded data ready for flashing
  */
 export function encodeToUF2(
   data: Uint8Array,
   options: UF2EncodeOptions
 ): UF2EncodeResult {
-  const { platform, baseAddress } = options;
+  return encodeRangesToUF2([{ address: options.baseAddress, data }], options);
+}
 
-  // Get family ID
-  const familyId = getFamilyId(platform);
+/**
+ * Encodes sparse data ranges to UF2 format
+ *
+ * With 256-byte payloads, blocks are aligned to 256-byte flash pages and
+ * ranges sharing a page are combined into one block. With 476-byte
+ * payloads, each range is split into blocks starting at its own address.
+ * Bytes of a block not covered by any range are set to `fillByte`.
+ *
+ * @param ranges - Data ranges (must not overlap)
+ * @param options - Encoding options (`baseAddress` is ignored)
+ * @returns UF2-encoded data; `baseAddress` is the lowest block address
+ * @throws Error if ranges overlap or options are inconsistent
+ */
+export function encodeRangesToUF2(
+  ranges: UF2Range[],
+  options: UF2EncodeOptions
+): UF2EncodeResult {
+  const payloadSize = options.payloadSize ?? UF2_PAGE_SIZE;
+  const familyId = options.familyId ?? (options.platform && getFamilyId(options.platform));
 
-  // Convert using uf2gen library
-  // Note: uf2gen only knows about RP2040, so we'll post-process for RP2350
-  const uf2Data = convertBinToUf2(data, baseAddress, UF2_FAMILY_IDS.RP2040);
+  if (familyId === undefined) {
+    throw new Error('UF2 encoding requires a platform or family ID');
+  }
 
-  // If RP2350, patch family IDs in all blocks
-  const finalData = platform === 'RP2350'
-    ? patchFamilyId(uf2Data, UF2_FAMILY_IDS.RP2350)
-    : uf2Data;
+  if (payloadSize !== UF2_PAGE_SIZE && payloadSize !== UF2_DATA_SIZE) {
+    throw new Error(`Invalid UF2 payload size: ${payloadSize} (expected 256 or 476)`);
+  }
 
-  // Calculate block count (each block is 512 bytes)
-  const blockCount = finalData.byteLength / 512;
+  if (options.md5 && payloadSize > UF2_DATA_SIZE - MD5_TRAILER_SIZE) {
+    throw new Error(
+      `UF2 payload size ${payloadSize} leaves no room for MD5 checksum ` +
+      `(max ${UF2_DATA_SIZE - MD5_TRAILER_SIZE})`
+    );
+  }
+
+  let flags = UF2_FLAGS.FAMILY_ID_PRESENT;
+  if (options.notMainFlash) flags |= UF2_FLAGS.NOT_MAIN_FLASH;
+  if (options.md5) flags |= UF2_FLAGS.MD5_CHECKSUM_PRESENT;
+
+  const tags = options.tags?.length ? encodeExtensionTags(options.tags) : null;
+  const tagsOffset = alignUp(payloadSize, 4);
+  const tagsLimit = options.md5 ? MD5_TRAILER_OFFSET : UF2_DATA_SIZE;
+
+  if (tags && tagsOffset + tags.byteLength > tagsLimit) {
+    throw new Error(
+      `UF2 extension tags do not fit in block: ${tags.byteLength} bytes ` +
+      `(${tagsLimit - tagsOffset} available)`
+    );
+  }
+
+  const blocks = splitIntoBlocks(ranges, payloadSize, options.fillByte ?? 0x00);
+
+  if (options.layout && !options.notMainFlash) {
+    checkFlashBounds(blocks, options.layout);
+  }
+
+  const result = new Uint8Array(blocks.length * UF2_BLOCK_SIZE);
+
+  blocks.forEach((block, index) => {
+    const offset = index * UF2_BLOCK_SIZE;
+    const dataOffset = offset + UF2_HEADER_SIZE;
+    const view = new DataView(result.buffer, offset, UF2_BLOCK_SIZE);
+    const blockTags = index === 0 ? tags : null;
+
+    // Header (32 bytes)
+    view.setUint32(0, UF2_MAGIC_START0, true);
+    view.setUint32(4, UF2_MAGIC_START1, true);
+    view.setUint32(8, blockTags ? flags | UF2_FLAGS.EXTENSION_TAGS_PRESENT : flags, true);
+    view.setUint32(12, block.address, true);
+    view.setUint32(16, payloadSize, true);
+    view.setUint32(20, index, true);
+    view.setUint32(24, blocks.length, true);
+    view.setUint32(28, familyId, true);
+
+    // Data (payload, rest of data area is zero)
+    result.set(block.data, dataOffset);
+
+    if (blockTags) {
+      result.set(blockTags, dataOffset + tagsOffset);
+    }
+
+    // MD5 trailer: address, length, digest of this block's payload
+    if (options.md5) {
+      result.set(
+        encodeChecksumTrailer({ address: block.address, length: payloadSize, md5: calculateMD5(block.data) }),
+        dataOffset + MD5_TRAILER_OFFSET
+      );
+    }
+
+    // Footer
+    view.setUint32(UF2_BLOCK_SIZE - 4, UF2_MAGIC_END, true);
+  });
 
   return {
-    data: finalData,
-    blockCount,
-    totalSize: finalData.byteLength,
+    data: result,
+    blockCount: blocks.length,
+    totalSize: result.byteLength,
     familyId,
-    baseAddress,
+    baseAddress: blocks.length > 0 ? blocks[0].address : options.baseAddress,
   };
 }
 
@@ -105,31 +263,261 @@ export function getFamilyId(platform: Platform): number {
 }
 
 /**
- * Patches family ID in all UF2 blocks
+ * Gets name of a known UF2 family ID
  *
- * UF2 block structure (512 bytes):
- * - Offset 28: Family ID (4 bytes, little-endian)
+ * @param familyId - Family ID
+ * @returns Family name (key of UF2_FAMILY_IDS) or null if unknown
+ */
+export function getFamilyName(familyId: number): string | null {
+  const entry = Object.entries(UF2_FAMILY_IDS).find(([, id]) => id === familyId);
+  return entry ? entry[0] : null;
+}
+
+/**
+ * Creates a UTF-8 string extension tag (version, description)
+ *
+ * @param type - Tag type (e.g. UF2_EXTENSION_TAG_TYPES.VERSION)
+ * @param text - Tag text
+ * @returns Extension tag
+ */
+export function createTextTag(type: number, text: string): UF2ExtensionTag {
+  return { type, data: new TextEncoder().encode(text) };
+}
+
+/**
+ * Creates a page size extension tag
  *
- * @param uf2Data - UF2 data to patch
- * @param newFamilyId - New family ID to set
- * @returns Patched UF2 data
+ * @param pageSize - Page size of target device in bytes
+ * @returns Extension tag
  */
-function patchFamilyId(uf2Data: Uint8Array, newFamilyId: number): Uint8Array {
-  const result = new Uint8Array(uf2Data);
-  const blockSize = 512;
-  const familyIdOffset = 28;
+export function createPageSizeTag(pageSize: number): UF2ExtensionTag {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, pageSize, true);
+  return { type: UF2_EXTENSION_TAG_TYPES.PAGE_SIZE, data };
+}
 
-  // Iterate through all blocks
-  for (let offset = 0; offset < result.byteLength; offset += blockSize) {
-    const view = new DataView(result.buffer, result.byteOffset + offset);
+/**
+ * Creates a SHA-2 checksum extension tag
+ *
+ * @param digest - SHA-2 digest (any size)
+ * @returns Extension tag
+ */
+export function createSHA2Tag(digest: Uint8Array): UF2ExtensionTag {
+  return { type: UF2_EXTENSION_TAG_TYPES.SHA2, data: new Uint8Array(digest) };
+}
 
-    // Write new family ID at offset 28 (little-endian)
-    view.setUint32(familyIdOffset, newFamilyId, true);
+/**
+ * Formats an extension tag for display
+ *
+ * @param tag - Extension tag
+ * @returns Tag name and human-readable value
+ */
+export function describeExtensionTag(tag: UF2ExtensionTag): { name: string; value: string } {
+  const hexData = () => Array.from(tag.data).map(b => b.toString(16).padStart(2, '0')).join('');
+
+  switch (tag.type) {
+    case UF2_EXTENSION_TAG_TYPES.VERSION:
+      return { name: 'Version', value: new TextDecoder().decode(tag.data) };
+    case UF2_EXTENSION_TAG_TYPES.DESCRIPTION:
+      return { name: 'Description', value: new TextDecoder().decode(tag.data) };
+    case UF2_EXTENSION_TAG_TYPES.PAGE_SIZE:
+      return {
+        name: 'Page size',
+        value: tag.data.byteLength >= 4
+          ? String(new DataView(tag.data.buffer, tag.data.byteOffset).getUint32(0, true))
+          : hexData(),
+      };
+    case UF2_EXTENSION_TAG_TYPES.SHA2:
+      return { name: 'SHA-2', value: hexData() };
+    case UF2_EXTENSION_TAG_TYPES.DEVICE_TYPE_ID:
+      return { name: 'Device type', value: `0x${hexData()}` };
+    default:
+      return { name: `Tag 0x${tag.type.toString(16).padStart(6, '0')}`, value: hexData() };
+  }
+}
+
+/**
+ * Encodes extension tags as stored after the block payload
+ *
+ * Each tag is a 4-byte header (size including header, 24-bit type, both
+ * little-endian) followed by data, padded to 4 bytes. The list ends with
+ * an all-zero tag header.
+ *
+ * @param tags - Extension tags
+ * @returns Encoded tags including terminator
+ * @throws Error if a tag is too large or has an invalid type
+ */
+export function encodeExtensionTags(tags: UF2ExtensionTag[]): Uint8Array {
+  const size = tags.reduce(
+    (total, tag) => total + alignUp(UF2_TAG_HEADER_SIZE + tag.data.byteLength, 4),
+    UF2_TAG_HEADER_SIZE
+  );
+  const result = new Uint8Array(size);
+  const view = new DataView(result.buffer);
+  let offset = 0;
+
+  for (const tag of tags) {
+    const tagSize = UF2_TAG_HEADER_SIZE + tag.data.byteLength;
+
+    if (tagSize > UF2_MAX_TAG_SIZE) {
+      throw new Error(
+        `UF2 extension tag too large: ${tag.data.byteLength} bytes ` +
+        `(max ${UF2_MAX_TAG_SIZE - UF2_TAG_HEADER_SIZE})`
+      );
+    }
+
+    if (tag.type <= 0 || tag.type > 0xFFFFFF) {
+      throw new Error(`Invalid UF2 extension tag type: 0x${tag.type.toString(16)}`);
+    }
+
+    view.setUint32(offset, tagSize | (tag.type << 8), true);
+    result.set(tag.data, offset + UF2_TAG_HEADER_SIZE);
+    offset += alignUp(tagSize, 4);
+  }
+
+  // Terminator (size 0) is implicit (zeros from new Uint8Array)
+
+  return result;
+}
+
+/**
+ * Parses extension tags
+ *
+ * Stops at the terminator, at a malformed tag or at the end of `data`.
+ *
+ * @param data - Bytes starting at the first tag
+ * @returns Parsed tags
+ */
+export function parseExtensionTags(data: Uint8Array): UF2ExtensionTag[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tags: UF2ExtensionTag[] = [];
+  let offset = 0;
+
+  while (offset + UF2_TAG_HEADER_SIZE <= data.byteLength) {
+    const header = view.getUint32(offset, true);
+    const tagSize = header & 0xFF;
+
+    if (tagSize < UF2_TAG_HEADER_SIZE || offset + tagSize > data.byteLength) {
+      break;
+    }
+
+    tags.push({
+      type: header >>> 8,
+      data: data.slice(offset + UF2_TAG_HEADER_SIZE, offset + tagSize),
+    });
+    offset += alignUp(tagSize, 4);
   }
 
+  return tags;
+}
+
+/**
+ * Encodes MD5 checksum trailer (24 bytes)
+ *
+ * @param trailer - Region address, length and MD5 digest
+ * @returns Encoded trailer
+ */
+export function encodeChecksumTrailer(trailer: UF2ChecksumTrailer): Uint8Array {
+  const result = new Uint8Array(MD5_TRAILER_SIZE);
+  const view = new DataView(result.buffer);
+
+  view.setUint32(0, trailer.address, true);
+  view.setUint32(4, trailer.length, true);
+  result.set(trailer.md5.subarray(0, 16), 8);
+
   return result;
 }
 
+/**
+ * Parses MD5 checksum trailer from a block data area
+ *
+ * @param dataArea - Block data area (476 bytes)
+ * @returns Region address, length and MD5 digest
+ */
+export function parseChecksumTrailer(dataArea: Uint8Array): UF2ChecksumTrailer {
+  const trailer = dataArea.subarray(MD5_TRAILER_OFFSET, UF2_DATA_SIZE);
+  const view = new DataView(trailer.buffer, trailer.byteOffset, trailer.byteLength);
+
+  return {
+    address: view.getUint32(0, true),
+    length: view.getUint32(4, true),
+    md5: trailer.slice(8, 24),
+  };
+}
+
+/**
+ * Helper: Ensure all blocks are inside the layout's flash
+ */
+function checkFlashBounds(blocks: UF2Range[], layout: FlashLayout): void {
+  const flashEnd = layout.flashBase + layout.flashSize;
+
+  for (const block of blocks) {
+    if (block.address < layout.flashBase || block.address + block.data.byteLength > flashEnd) {
+      throw new Error(
+        `Block at 0x${block.address.toString(16)} is outside ${layout.name} flash ` +
+        `(0x${layout.flashBase.toString(16)} - 0x${flashEnd.toString(16)})`
+      );
+    }
+  }
+}
+
+/**
+ * Helper: Split ranges into payload-sized blocks, sorted by address
+ */
+function splitIntoBlocks(
+  ranges: UF2Range[],
+  payloadSize: number,
+  fillByte: number
+): UF2Range[] {
+  const sorted = [...ranges]
+    .filter(r => r.data.byteLength > 0)
+    .sort((a, b) => a.address - b.address);
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    if (sorted[i].address < prev.address + prev.data.byteLength) {
+      throw new Error(
+        `Overlapping UF2 input ranges at 0x${sorted[i].address.toString(16)}`
+      );
+    }
+  }
+
+  const blocks: UF2Range[] = [];
+  const pageAligned = payloadSize === UF2_PAGE_SIZE;
+
+  for (const range of sorted) {
+    let address = range.address;
+    const end = range.address + range.data.byteLength;
+
+    while (address < end) {
+      const blockAddr = pageAligned ? address - (address % payloadSize) : address;
+      let block = blocks[blocks.length - 1];
+
+      // Ranges sharing a page go into the same block
+      if (!block || block.address !== blockAddr) {
+        block = { address: blockAddr, data: new Uint8Array(payloadSize).fill(fillByte) };
+        blocks.push(block);
+      }
+
+      const chunkEnd = Math.min(end, blockAddr + payloadSize);
+      block.data.set(
+        range.data.subarray(address - range.address, chunkEnd - range.address),
+        address - blockAddr
+      );
+      address = chunkEnd;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Helper: Round up to a multiple of `alignment`
+ */
+function alignUp(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
 /**
  * Validates UF2 block structure
  *
@@ -187,6 +575,10 @@ export function countBlocks(uf2Data: Uint8Array): number {
 /**
  * Validates entire UF2 file
  *
+ * Checks file size and magic numbers of every block only. Use
+ * validateUF2() from uf2-merger.ts to also check block numbering,
+ * addresses and family IDs.
+ *
  * @param uf2Data - UF2-encoded data
  * @throws Error if validation fails
  */
@@ -8,15 +8,45 @@
  * 1. Parse both UF2 files into blocks
  * 2. Validate memory layout (no overlaps)
  * 3. Combine all blocks
- * 4. Renumber block sequences
+ * 4. Renumber block sequences (per family)
  * 5. Serialize back to UF2 format
  *
- * Memory Layout:
+ * replacePayload() swaps the payload of an already merged firmware:
+ * blocks in the payload region are dropped and the new payload merged
+ * with the remaining base blocks. splitUF2() is the inverse of mergeUF2().
+ *
+ * Base firmware may contain several families (e.g. an RP2350 image with
+ * an absolute-family block). Special blocks (absolute family or
+ * not-main-flash) are kept as they are and left out of the base range.
+ *
+ * Memory Layout (Raspberry Pi Pico, see FlashLayout for other boards):
  * - Base: 0x10000000 - 0x10080000 (512 KB flash)
  * - Payload: 0x10080000 - 0x10200000 (~1.5 MB)
  */
 
-import { MEMORY_LAYOUT } from './uf2-encoder';
+import {
+  MEMORY_LAYOUT,
+  UF2_FLAGS,
+  UF2_FAMILY_IDS,
+  UF2_DATA_SIZE,
+  UF2_PAGE_SIZE,
+  UF2_TAG_HEADER_SIZE,
+  UF2_MAX_TAG_SIZE,
+  getFamilyName,
+  createTextTag,
+  encodeExtensionTags,
+  parseExtensionTags,
+  encodeChecksumTrailer,
+  parseChecksumTrailer,
+  type UF2ExtensionTag,
+  type UF2ChecksumTrailer,
+} from './uf2-encoder';
+import type { FlashLayout } from './flash-layout';
+
+// Families of the same chip (the RP2350 runs ARM or RISC-V images)
+const COMPATIBLE_FAMILIES: readonly (readonly number[])[] = [
+  [UF2_FAMILY_IDS.RP2350, UF2_FAMILY_IDS.RP2350_RISCV],
+];
 
 /**
  * UF2 Block structure (512 bytes)
@@ -30,10 +60,55 @@ export interface UF2Block {
   blockNo: number;        // Block sequence number
   numBlocks: number;      // Total number of blocks
   familyID: number;       // Platform family ID
-  data: Uint8Array;       // Block data (256 bytes)
+  data: Uint8Array;       // Block payload (payloadSize bytes, max 476)
+  tags?: UF2ExtensionTag[];       // Extension tags (flag 0x8000)
+  checksum?: UF2ChecksumTrailer;  // MD5 checksum trailer (flag 0x4000)
   magicEnd: number;       // 0x0AB16F30
 }
 
+/**
+ * Options for validateUF2
+ */
+export interface UF2ValidationOptions {
+  /**
+   * Accept blocks of more than one family (default: false)
+   */
+  allowMultipleFamilies?: boolean;
+
+  /**
+   * Name of the file used in error messages (default: 'UF2 data')
+   */
+  name?: string;
+}
+
+/**
+ * Error thrown when UF2 data fails strict validation
+ */
+export class UF2ValidationError extends Error {
+  constructor(public readonly report: UF2Report, name = 'UF2 data') {
+    const first = report.findings.find(f => f.severity === 'error');
+    super(`${name} is not a valid UF2 (${report.errorCount} problem(s)): ${first?.message}`);
+    this.name = 'UF2ValidationError';
+  }
+}
+
+/**
+ * Options for merging UF2 files
+ */
+export interface MergeOptions {
+  /**
+   * Extension tags added to the first merged block. Tags replace
+   * existing tags of the same type.
+   */
+  tags?: UF2ExtensionTag[];
+
+  /**
+   * Board flash layout. When set, base firmware must fit in the base
+   * region and the payload in the payload window.
+   */
+  layout?: FlashLayout;
+}
+
 /**
  * Result of merging two UF2 files
  */
@@ -44,30 +119,151 @@ export interface MergeResult {
   payloadBlocks: number;  // Number of blocks from payload
 }
 
+/**
+ * Result of splitting merged firmware
+ */
+export interface SplitResult {
+  base: Uint8Array;       // Base firmware (UF2)
+  payload: Uint8Array;    // Payload (UF2, empty if there is none)
+  baseBlocks: number;     // Number of base blocks
+  payloadBlocks: number;  // Number of payload blocks
+}
+
+/**
+ * Options for splitting merged firmware
+ */
+export interface SplitOptions {
+  /**
+   * Board flash layout (default: Raspberry Pi Pico payload base)
+   */
+  layout?: FlashLayout;
+}
+
+export type UF2FindingSeverity = 'error' | 'warning';
+
+export type UF2FindingCode =
+  | 'invalid-size'
+  | 'bad-magic'
+  | 'invalid-payload-size'
+  | 'unaligned-address'
+  | 'missing-family-id'
+  | 'multiple-families'
+  | 'block-number-mismatch'
+  | 'num-blocks-mismatch'
+  | 'duplicate-block'
+  | 'overlapping-blocks';
+
+/**
+ * Single problem found while inspecting a UF2 file
+ */
+export interface UF2Finding {
+  severity: UF2FindingSeverity;
+  code: UF2FindingCode;
+  message: string;
+  blockIndex?: number;    // Position of the block in the file
+}
+
+/**
+ * Blocks of one family in a UF2 file
+ */
+export interface UF2FamilySummary {
+  familyID: number;
+  name: string | null;    // Known family name (null if unknown)
+  blockCount: number;
+}
+
+/**
+ * Contiguous address range covered by blocks of one family
+ */
+export interface UF2AddressRange {
+  familyID: number;
+  start: number;
+  end: number;            // Exclusive
+  size: number;
+  blockCount: number;
+}
+
+/**
+ * Unwritten address range between two ranges of one family
+ */
+export interface UF2Gap {
+  familyID: number;
+  start: number;
+  end: number;            // Exclusive
+  size: number;
+}
+
+/**
+ * Number of blocks with each flag set
+ */
+export interface UF2FlagSummary {
+  notMainFlash: number;
+  fileContainer: number;
+  familyIdPresent: number;
+  md5Checksum: number;
+  extensionTags: number;
+}
+
+/**
+ * Result of inspectUF2
+ */
+export interface UF2Report {
+  valid: boolean;               // True when there are no errors
+  blockCount: number;
+  totalSize: number;            // Payload bytes in all blocks
+  families: UF2FamilySummary[];
+  ranges: UF2AddressRange[];    // Sorted by family, then address
+  gaps: UF2Gap[];
+  flags: UF2FlagSummary;
+  payloadSizes: number[];       // Distinct payload sizes
+  tags: UF2ExtensionTag[];      // Extension tags from all blocks
+  findings: UF2Finding[];
+  errorCount: number;
+  warningCount: number;
+}
+
 const BLOCK_SIZE = 512;
-const PAYLOAD_SIZE = 256;
+const HEADER_SIZE = 32;
+const MD5_TRAILER_OFFSET = UF2_DATA_SIZE - 24;
 
 /**
  * Merges base firmware and payload UF2 files
  *
  * @param baseFirmware - Base PicoBoot firmware (UF2)
  * @param payloadFirmware - Payload firmware (UF2)
+ * @param options - Extension tags and flash layout
  * @returns Merged firmware ready for flashing
  */
-export function mergeUF2(baseFirmware: Uint8Array, payloadFirmware: Uint8Array): MergeResult {
+export function mergeUF2(
+  baseFirmware: Uint8Array,
+  payloadFirmware: Uint8Array,
+  options: MergeOptions = {}
+): MergeResult {
+  // Reject truncated, misnumbered or mixed-family inputs
+  validateUF2(baseFirmware, { name: 'Base firmware', allowMultipleFamilies: true });
+  validateUF2(payloadFirmware, { name: 'Payload' });
+
   // Parse both files into blocks
   const baseBlocks = parseUF2Blocks(baseFirmware);
   const payloadBlocks = parseUF2Blocks(payloadFirmware);
 
+  validateFamilies(baseBlocks, payloadBlocks);
+
   // Validate memory layout
-  validateMemoryLayout(baseBlocks, payloadBlocks);
+  validateMemoryLayout(baseBlocks, payloadBlocks, options.layout);
 
   // Combine blocks (base first, then payload)
   const allBlocks = [...baseBlocks, ...payloadBlocks];
 
-  // Renumber blocks sequentially
+  // Renumber blocks sequentially (per family)
   const renumbered = renumberBlocks(allBlocks);
 
+  // Tag the merged firmware (first regular block)
+  const tagIndex = renumbered.findIndex(b => !isSpecialBlock(b));
+  if (options.tags?.length && tagIndex !== -1) {
+    renumbered[tagIndex] = withTags(renumbered[tagIndex], options.tags);
+  }
+
   // Serialize back to UF2 format
   const mergedData = serializeBlocks(renumbered);
 
@@ -79,6 +275,61 @@ export function mergeUF2(baseFirmware: Uint8Array, payloadFirmware: Uint8Array):
   };
 }
 
+/**
+ * Replaces the payload of an existing PicoBoot firmware
+ *
+ * Drops all regular blocks at or after the payload base, keeps base and
+ * special blocks, then merges the new payload like mergeUF2().
+ *
+ * @param existingUF2 - Merged PicoBoot firmware (UF2)
+ * @param newWrapped - New wrapped payload (UF2)
+ * @param options - Extension tags and flash layout
+ * @returns Firmware with the new payload
+ * @throws Error if the existing firmware has no base firmware blocks
+ */
+export function replacePayload(
+  existingUF2: Uint8Array,
+  newWrapped: Uint8Array,
+  options: MergeOptions = {}
+): MergeResult {
+  validateUF2(existingUF2, { name: 'Existing firmware', allowMultipleFamilies: true });
+
+  const payloadBase = options.layout?.payloadBase ?? MEMORY_LAYOUT.PAYLOAD_BASE;
+  const { baseBlocks } = partitionBlocks(parseUF2Blocks(existingUF2), payloadBase);
+
+  if (!baseBlocks.some(b => !isSpecialBlock(b))) {
+    throw new Error(`Existing firmware has no base firmware below 0x${hex(payloadBase)}`);
+  }
+
+  return mergeUF2(serializeBlocks(renumberBlocks(baseBlocks)), newWrapped, options);
+}
+
+/**
+ * Splits merged firmware into base firmware and payload
+ *
+ * Inverse of mergeUF2(): regular blocks at or after the payload base
+ * go to the payload, all other blocks (including special blocks) to
+ * the base. Both parts are renumbered; extension tags are kept.
+ *
+ * @param mergedUF2 - Merged PicoBoot firmware (UF2)
+ * @param options - Flash layout
+ * @returns Base and payload UF2 data
+ * @throws {UF2ValidationError} If the merged firmware is not a valid UF2
+ */
+export function splitUF2(mergedUF2: Uint8Array, options: SplitOptions = {}): SplitResult {
+  validateUF2(mergedUF2, { name: 'Merged firmware', allowMultipleFamilies: true });
+
+  const payloadBase = options.layout?.payloadBase ?? MEMORY_LAYOUT.PAYLOAD_BASE;
+  const { baseBlocks, payloadBlocks } = partitionBlocks(parseUF2Blocks(mergedUF2), payloadBase);
+
+  return {
+    base: serializeBlocks(renumberBlocks(baseBlocks)),
+    payload: serializeBlocks(renumberBlocks(payloadBlocks)),
+    baseBlocks: baseBlocks.length,
+    payloadBlocks: payloadBlocks.length,
+  };
+}
+
 /**
  * Parses UF2 data into blocks
  *
@@ -106,6 +357,229 @@ export function parseUF2Blocks(uf2Data: Uint8Array): UF2Block[] {
   return blocks;
 }
 
+/**
+ * Inspects UF2 data and describes its contents
+ *
+ * Unlike parseUF2Blocks(), never throws: problems are reported as
+ * findings. Blocks with bad magic numbers are skipped. Block numbering
+ * is checked per family, as each family is a separate image. Special
+ * blocks (see isSpecialBlock) are left out of the numbering check.
+ *
+ * @param uf2Data - UF2-encoded data
+ * @returns Families, address ranges, gaps, flags and findings
+ */
+export function inspectUF2(uf2Data: Uint8Array): UF2Report {
+  const findings: UF2Finding[] = [];
+  const blocks: { index: number; block: UF2Block }[] = [];
+
+  if (uf2Data.byteLength % BLOCK_SIZE !== 0) {
+    findings.push({
+      severity: 'error',
+      code: 'invalid-size',
+      message: `File size ${uf2Data.byteLength} is not a multiple of ${BLOCK_SIZE} bytes`,
+    });
+  }
+
+  for (let index = 0; (index + 1) * BLOCK_SIZE <= uf2Data.byteLength; index++) {
+    try {
+      const offset = index * BLOCK_SIZE;
+      blocks.push({ index, block: parseBlock(uf2Data.subarray(offset, offset + BLOCK_SIZE)) });
+    } catch {
+      findings.push({
+        severity: 'error',
+        code: 'bad-magic',
+        message: `Block ${index} has bad magic numbers`,
+        blockIndex: index,
+      });
+    }
+  }
+
+  // Per-block fields
+  for (const { index, block } of blocks) {
+    if (block.payloadSize === 0 || block.payloadSize > UF2_DATA_SIZE) {
+      findings.push({
+        severity: 'error',
+        code: 'invalid-payload-size',
+        message: `Block ${index} has invalid payload size ${block.payloadSize} (max ${UF2_DATA_SIZE})`,
+        blockIndex: index,
+      });
+    }
+
+    // Flash is written in 256-byte pages
+    if (!(block.flags & UF2_FLAGS.NOT_MAIN_FLASH) && block.targetAddr % UF2_PAGE_SIZE !== 0) {
+      findings.push({
+        severity: 'error',
+        code: 'unaligned-address',
+        message: `Block ${index} target address 0x${hex(block.targetAddr)} is not ${UF2_PAGE_SIZE}-byte aligned`,
+        blockIndex: index,
+      });
+    }
+
+    if (!(block.flags & UF2_FLAGS.FAMILY_ID_PRESENT)) {
+      findings.push({
+        severity: 'warning',
+        code: 'missing-family-id',
+        message: `Block ${index} has no family ID flag`,
+        blockIndex: index,
+      });
+    }
+  }
+
+  // Families
+  const byFamily = new Map<number, { index: number; block: UF2Block }[]>();
+  for (const entry of blocks) {
+    const list = byFamily.get(entry.block.familyID) ?? [];
+    list.push(entry);
+    byFamily.set(entry.block.familyID, list);
+  }
+
+  const families: UF2FamilySummary[] = [...byFamily.entries()].map(([familyID, list]) => ({
+    familyID,
+    name: getFamilyName(familyID),
+    blockCount: list.length,
+  }));
+
+  if (families.length > 1) {
+    findings.push({
+      severity: 'warning',
+      code: 'multiple-families',
+      message: `File contains ${families.length} families: ${families.map(f => formatFamilyID(f.familyID)).join(', ')}`,
+    });
+  }
+
+  const ranges: UF2AddressRange[] = [];
+  const gaps: UF2Gap[] = [];
+
+  for (const [familyID, list] of byFamily) {
+    // Block numbering (file order), e.g. picotool's RP2350 absolute block has numBlocks 2
+    const numbered = list.filter(({ block }) => !isSpecialBlock(block));
+    numbered.forEach(({ index, block }, position) => {
+      if (block.blockNo !== position) {
+        findings.push({
+          severity: 'error',
+          code: 'block-number-mismatch',
+          message: `Block ${index} has blockNo ${block.blockNo}, expected ${position}`,
+          blockIndex: index,
+        });
+      }
+
+      if (block.numBlocks !== numbered.length) {
+        findings.push({
+          severity: 'error',
+          code: 'num-blocks-mismatch',
+          message: `Block ${index} has numBlocks ${block.numBlocks}, expected ${numbered.length}`,
+          blockIndex: index,
+        });
+      }
+    });
+
+    // Address ranges (address order)
+    const sorted = [...list].sort((a, b) => a.block.targetAddr - b.block.targetAddr);
+    let range: UF2AddressRange | null = null;
+    let previous: { index: number; block: UF2Block } | null = null;
+
+    for (const entry of sorted) {
+      const { index, block } = entry;
+      const start = block.targetAddr;
+      const end = start + block.payloadSize;
+
+      if (range && previous && start < range.end) {
+        const duplicate = start === previous.block.targetAddr && block.payloadSize === previous.block.payloadSize;
+        findings.push(duplicate
+          ? {
+              severity: 'error',
+              code: 'duplicate-block',
+              message: `Blocks ${previous.index} and ${index} both write 0x${hex(start)}`,
+              blockIndex: index,
+            }
+          : {
+              severity: 'error',
+              code: 'overlapping-blocks',
+              message: `Block ${index} at 0x${hex(start)} overlaps block ${previous.index} ` +
+                `(0x${hex(previous.block.targetAddr)} - 0x${hex(previous.block.targetAddr + previous.block.payloadSize)})`,
+              blockIndex: index,
+            });
+        range.end = Math.max(range.end, end);
+        range.size = range.end - range.start;
+        range.blockCount++;
+      } else if (range && start === range.end) {
+        range.end = end;
+        range.size = range.end - range.start;
+        range.blockCount++;
+      } else {
+        if (range) {
+          gaps.push({ familyID, start: range.end, end: start, size: start - range.end });
+        }
+        range = { familyID, start, end, size: end - start, blockCount: 1 };
+        ranges.push(range);
+      }
+
+      previous = entry;
+    }
+  }
+
+  const count = (flag: number) => blocks.filter(({ block }) => block.flags & flag).length;
+  const errorCount = findings.filter(f => f.severity === 'error').length;
+
+  return {
+    valid: errorCount === 0,
+    blockCount: blocks.length,
+    totalSize: blocks.reduce((total, { block }) => total + block.payloadSize, 0),
+    families,
+    ranges,
+    gaps,
+    flags: {
+      notMainFlash: count(UF2_FLAGS.NOT_MAIN_FLASH),
+      fileContainer: count(UF2_FLAGS.FILE_CONTAINER),
+      familyIdPresent: count(UF2_FLAGS.FAMILY_ID_PRESENT),
+      md5Checksum: count(UF2_FLAGS.MD5_CHECKSUM_PRESENT),
+      extensionTags: count(UF2_FLAGS.EXTENSION_TAGS_PRESENT),
+    },
+    payloadSizes: [...new Set(blocks.map(({ block }) => block.payloadSize))],
+    tags: blocks.flatMap(({ block }) => block.tags ?? []),
+    findings,
+    errorCount,
+    warningCount: findings.length - errorCount,
+  };
+}
+
+/**
+ * Strictly validates UF2 data
+ *
+ * Every error found by inspectUF2() fails validation: bad magic, payload
+ * size over 476, unaligned flash addresses, non-sequential blockNo,
+ * inconsistent numBlocks (special blocks are not counted, see
+ * isSpecialBlock) and blocks writing the same address. Multiple
+ * families are also an error unless `allowMultipleFamilies` is set.
+ *
+ * @param uf2Data - UF2-encoded data
+ * @param options - Validation options
+ * @returns Inspection report (with strict severities)
+ * @throws {UF2ValidationError} If validation fails
+ */
+export function validateUF2(uf2Data: Uint8Array, options: UF2ValidationOptions = {}): UF2Report {
+  const report = inspectUF2(uf2Data);
+
+  const findings = options.allowMultipleFamilies
+    ? report.findings
+    : report.findings.map(f => f.code === 'multiple-families' ? { ...f, severity: 'error' as const } : f);
+  const errorCount = findings.filter(f => f.severity === 'error').length;
+
+  const strict: UF2Report = {
+    ...report,
+    valid: errorCount === 0,
+    findings,
+    errorCount,
+    warningCount: findings.length - errorCount,
+  };
+
+  if (!strict.valid) {
+    throw new UF2ValidationError(strict, options.name);
+  }
+
+  return strict;
+}
+
 /**
  * Parses a single UF2 block
  *
@@ -129,8 +603,16 @@ function parseBlock(blockData: Uint8Array): UF2Block {
   const numBlocks = view.getUint32(24, true);
   const familyID = view.getUint32(28, true);
 
-  // Extract payload data (256 bytes at offset 32)
-  const data = blockData.slice(32, 32 + PAYLOAD_SIZE);
+  // Extract payload data (payloadSize bytes at offset 32)
+  const dataArea = blockData.subarray(HEADER_SIZE, HEADER_SIZE + UF2_DATA_SIZE);
+  const data = dataArea.slice(0, Math.min(payloadSize, UF2_DATA_SIZE));
+
+  // Extension tags follow the payload, MD5 trailer fills the last 24 bytes
+  const hasChecksum = (flags & UF2_FLAGS.MD5_CHECKSUM_PRESENT) !== 0;
+  const checksum = hasChecksum ? parseChecksumTrailer(dataArea) : undefined;
+  const tags = flags & UF2_FLAGS.EXTENSION_TAGS_PRESENT
+    ? parseExtensionTags(dataArea.subarray(tagsOffset(payloadSize), hasChecksum ? MD5_TRAILER_OFFSET : UF2_DATA_SIZE))
+    : undefined;
 
   // Read footer
   const magicEnd = view.getUint32(508, true);
@@ -150,6 +632,8 @@ function parseBlock(blockData: Uint8Array): UF2Block {
     numBlocks,
     familyID,
     data,
+    ...(tags && { tags }),
+    ...(checksum && { checksum }),
     magicEnd,
   };
 }
@@ -162,17 +646,30 @@ function parseBlock(blockData: Uint8Array): UF2Block {
  * - Base is in flash region (0x10000000 - 0x10080000)
  * - Payload is in payload region (0x10080000+)
  *
+ * Special base blocks (see isSpecialBlock) are left out of the base
+ * range but must not overlap the payload either.
+ *
+ * With a flash layout, also checks that the base fits in the layout's
+ * base region and the payload in its payload window.
+ *
  * @param baseBlocks - Base firmware blocks
  * @param payloadBlocks - Payload blocks
+ * @param layout - Board flash layout (optional)
  */
-export function validateMemoryLayout(baseBlocks: UF2Block[], payloadBlocks: UF2Block[]): void {
-  if (baseBlocks.length === 0 || payloadBlocks.length === 0) {
+export function validateMemoryLayout(
+  baseBlocks: UF2Block[],
+  payloadBlocks: UF2Block[],
+  layout?: FlashLayout
+): void {
+  const regularBlocks = baseBlocks.filter(b => !isSpecialBlock(b));
+
+  if (regularBlocks.length === 0 || payloadBlocks.length === 0) {
     return;
   }
 
   // Find base memory range
-  const baseStart = Math.min(...baseBlocks.map(b => b.targetAddr));
-  const baseEnd = Math.max(...baseBlocks.map(b => b.targetAddr + b.payloadSize));
+  const baseStart = Math.min(...regularBlocks.map(b => b.targetAddr));
+  const baseEnd = Math.max(...regularBlocks.map(b => b.targetAddr + b.payloadSize));
 
   // Find payload memory range
   const payloadStart = Math.min(...payloadBlocks.map(b => b.targetAddr));
@@ -187,6 +684,19 @@ export function validateMemoryLayout(baseBlocks: UF2Block[], payloadBlocks: UF2B
     );
   }
 
+  // Check special blocks written to flash
+  for (const block of baseBlocks) {
+    if (!isSpecialBlock(block) || block.flags & UF2_FLAGS.NOT_MAIN_FLASH) continue;
+
+    if (block.targetAddr + block.payloadSize > payloadStart && block.targetAddr < payloadEnd) {
+      throw new Error(
+        `Memory overlap detected: base block at 0x${block.targetAddr.toString(16)} ` +
+        `(family 0x${block.familyID.toString(16)}) is inside ` +
+        `payload [0x${payloadStart.toString(16)} - 0x${payloadEnd.toString(16)}]`
+      );
+    }
+  }
+
   // Validate base is in flash region
   if (baseStart < MEMORY_LAYOUT.FLASH_BASE) {
     throw new Error(
@@ -201,24 +711,204 @@ export function validateMemoryLayout(baseBlocks: UF2Block[], payloadBlocks: UF2B
       `payload 0x${payloadStart.toString(16)}, base ends at 0x${baseEnd.toString(16)}`
     );
   }
+
+  if (layout) {
+    checkLayoutRegions(layout, { start: baseStart, end: baseEnd }, { start: payloadStart, end: payloadEnd });
+  }
 }
 
 /**
- * Renumbers blocks sequentially
+ * Helper: Ensure base and payload ranges fit the layout's regions
+ */
+function checkLayoutRegions(
+  layout: FlashLayout,
+  base: { start: number; end: number },
+  payload: { start: number; end: number }
+): void {
+  const baseRegionEnd = layout.baseRegion.start + layout.baseRegion.size;
+  const payloadWindowEnd = layout.payloadBase + layout.maxPayloadSize;
+
+  if (base.start < layout.baseRegion.start || base.end > baseRegionEnd) {
+    throw new Error(
+      `Base firmware [0x${base.start.toString(16)} - 0x${base.end.toString(16)}] ` +
+      `does not fit ${layout.name} base region ` +
+      `[0x${layout.baseRegion.start.toString(16)} - 0x${baseRegionEnd.toString(16)}]`
+    );
+  }
+
+  if (payload.start !== layout.payloadBase) {
+    throw new Error(
+      `Payload starts at 0x${payload.start.toString(16)}, ` +
+      `expected 0x${layout.payloadBase.toString(16)} for ${layout.name}`
+    );
+  }
+
+  if (payload.end > payloadWindowEnd) {
+    throw new Error(
+      `Payload ends at 0x${payload.end.toString(16)}, ` +
+      `past ${layout.name} payload window end 0x${payloadWindowEnd.toString(16)}`
+    );
+  }
+}
+
+/**
+ * Picks the family ID for payload blocks merged into a firmware
  *
- * Updates blockNo (0, 1, 2, ...) and numBlocks (total count) in all blocks
+ * The payload must use the family of the regular base blocks, e.g. the
+ * RISC-V family for an RP2350 RISC-V PicoBoot build. The preferred
+ * family wins when the base uses it; otherwise only a family of the same
+ * chip is taken from the base.
+ *
+ * @param firmware - Base (or existing merged) firmware (UF2)
+ * @param preferred - Family to use if present or undecidable (platform family)
+ * @returns Payload family ID
+ * @throws Error if the base only has families of another chip
+ */
+export function getPayloadFamily(firmware: Uint8Array, preferred: number): number {
+  let blocks: UF2Block[];
+  try {
+    blocks = parseUF2Blocks(firmware);
+  } catch {
+    // Invalid firmware is reported when it is merged
+    return preferred;
+  }
+
+  const families = new Set(blocks.filter(b => !isSpecialBlock(b)).map(b => b.familyID));
+  if (families.size === 0 || families.has(preferred)) {
+    return preferred;
+  }
+
+  const compatible = COMPATIBLE_FAMILIES.find(group => group.includes(preferred)) ?? [];
+  const family = [...families].find(id => compatible.includes(id));
+  if (family === undefined) {
+    throw new Error(
+      `Base firmware family (${[...families].map(formatFamilyID).join(', ')}) ` +
+      `does not match ${formatFamilyID(preferred)}`
+    );
+  }
+
+  return family;
+}
+
+/**
+ * Creates a text tag that fits the first regular block of a firmware
+ *
+ * mergeUF2() puts tags in the first regular block, after its payload and
+ * the tags of other types it keeps. Text that does not fit is shortened
+ * (ending with "…"); if nothing fits, there is no tag.
+ *
+ * @param firmware - Base (or existing merged) firmware (UF2)
+ * @param type - Tag type (e.g. UF2_EXTENSION_TAG_TYPES.VERSION)
+ * @param text - Tag text
+ * @returns Extension tag, or null if there is no room for it
+ */
+export function fitTextTag(firmware: Uint8Array, type: number, text: string): UF2ExtensionTag | null {
+  let block: UF2Block | undefined;
+  try {
+    block = parseUF2Blocks(firmware).find(b => !isSpecialBlock(b));
+  } catch {
+    // Invalid firmware is reported when it is merged
+    return createTextTag(type, text);
+  }
+
+  if (!block) {
+    return createTextTag(type, text);
+  }
+
+  const kept = (block.tags ?? []).filter(t => t.type !== type);
+  const limit = block.checksum ? MD5_TRAILER_OFFSET : UF2_DATA_SIZE;
+  const free = limit - tagsOffset(block.payloadSize) - encodeExtensionTags(kept).byteLength;
+  const maxLength = Math.min(
+    Math.floor(free / 4) * 4 - UF2_TAG_HEADER_SIZE,
+    UF2_MAX_TAG_SIZE - UF2_TAG_HEADER_SIZE
+  );
+
+  const encoder = new TextEncoder();
+  if (encoder.encode(text).byteLength <= maxLength) {
+    return createTextTag(type, text);
+  }
+
+  // Shorten at a character boundary
+  let shortened = '';
+  for (const char of text) {
+    if (encoder.encode(`${shortened}${char}…`).byteLength > maxLength) break;
+    shortened += char;
+  }
+
+  return shortened ? createTextTag(type, `${shortened}…`) : null;
+}
+
+/**
+ * Validates that the payload family matches the base firmware
+ *
+ * @param baseBlocks - Base firmware blocks
+ * @param payloadBlocks - Payload blocks (single family)
+ * @throws Error if the payload family is not used by regular base blocks
+ */
+export function validateFamilies(baseBlocks: UF2Block[], payloadBlocks: UF2Block[]): void {
+  const baseFamilies = new Set(baseBlocks.filter(b => !isSpecialBlock(b)).map(b => b.familyID));
+
+  if (baseFamilies.size === 0 || payloadBlocks.length === 0) {
+    return;
+  }
+
+  const payloadFamily = payloadBlocks[0].familyID;
+  if (!baseFamilies.has(payloadFamily)) {
+    throw new Error(
+      `Payload family ${formatFamilyID(payloadFamily)} does not match base firmware ` +
+      `(${[...baseFamilies].map(formatFamilyID).join(', ')})`
+    );
+  }
+}
+
+/**
+ * Checks if a block is a special block
+ *
+ * Special blocks are absolute-family blocks (RP2350) and blocks flagged
+ * not-main-flash. They are copied to the merged firmware unchanged
+ * (including numbering) and do not count towards the base range.
+ *
+ * @param block - UF2 block
+ * @returns True for special blocks
+ */
+export function isSpecialBlock(block: UF2Block): boolean {
+  return block.familyID === UF2_FAMILY_IDS.ABSOLUTE ||
+    (block.flags & UF2_FLAGS.NOT_MAIN_FLASH) !== 0;
+}
+
+/**
+ * Renumbers blocks sequentially per family
+ *
+ * Each family is a separate image for the bootrom, so blockNo counts
+ * (0, 1, 2, ...) and numBlocks is the total within the block's family.
+ * Block order is preserved. Special blocks (see isSpecialBlock) are
+ * copied unchanged and not counted.
  *
  * @param blocks - Blocks to renumber
  * @returns Renumbered blocks
  */
 export function renumberBlocks(blocks: UF2Block[]): UF2Block[] {
-  const totalBlocks = blocks.length;
+  const totals = new Map<number, number>();
+  for (const block of blocks.filter(b => !isSpecialBlock(b))) {
+    totals.set(block.familyID, (totals.get(block.familyID) ?? 0) + 1);
+  }
 
-  return blocks.map((block, index) => ({
-    ...block,
-    blockNo: index,
-    numBlocks: totalBlocks,
-  }));
+  const counters = new Map<number, number>();
+
+  return blocks.map(block => {
+    if (isSpecialBlock(block)) {
+      return block;
+    }
+
+    const blockNo = counters.get(block.familyID) ?? 0;
+    counters.set(block.familyID, blockNo + 1);
+
+    return {
+      ...block,
+      blockNo,
+      numBlocks: totals.get(block.familyID) ?? 0,
+    };
+  });
 }
 
 /**
@@ -227,7 +917,7 @@ export function renumberBlocks(blocks: UF2Block[]): UF2Block[] {
  * @param blocks - Blocks to serialize
  * @returns UF2-encoded data
  */
-function serializeBlocks(blocks: UF2Block[]): Uint8Array {
+export function serializeBlocks(blocks: UF2Block[]): Uint8Array {
   const result = new Uint8Array(blocks.length * BLOCK_SIZE);
 
   blocks.forEach((block, index) => {
@@ -249,23 +939,94 @@ function serializeBlock(block: UF2Block): Uint8Array {
   const result = new Uint8Array(BLOCK_SIZE);
   const view = new DataView(result.buffer);
 
+  // Tag and checksum flags follow the block contents
+  let flags = block.flags & ~(UF2_FLAGS.EXTENSION_TAGS_PRESENT | UF2_FLAGS.MD5_CHECKSUM_PRESENT);
+  if (block.tags?.length) flags |= UF2_FLAGS.EXTENSION_TAGS_PRESENT;
+  if (block.checksum) flags |= UF2_FLAGS.MD5_CHECKSUM_PRESENT;
+
   // Write header (32 bytes)
   view.setUint32(0, block.magicStart0, true);   // 0x0A324655
   view.setUint32(4, block.magicStart1, true);   // 0x9E5D5157
-  view.setUint32(8, block.flags, true);
+  view.setUint32(8, flags, true);
   view.setUint32(12, block.targetAddr, true);
   view.setUint32(16, block.payloadSize, true);
   view.setUint32(20, block.blockNo, true);
   view.setUint32(24, block.numBlocks, true);
   view.setUint32(28, block.familyID, true);
 
-  // Write data (256 bytes at offset 32)
-  result.set(block.data, 32);
+  // Write data (payload at offset 32, rest of the 476-byte area is zero)
+  result.set(block.data.subarray(0, UF2_DATA_SIZE), HEADER_SIZE);
+
+  // Write extension tags after the payload
+  if (block.tags?.length) {
+    const tags = encodeExtensionTags(block.tags);
+    const offset = tagsOffset(block.payloadSize);
+    const limit = block.checksum ? MD5_TRAILER_OFFSET : UF2_DATA_SIZE;
+
+    if (offset + tags.byteLength > limit) {
+      throw new Error(
+        `UF2 extension tags do not fit in block ${block.blockNo}: ` +
+        `${tags.byteLength} bytes (${Math.max(0, limit - offset)} available)`
+      );
+    }
+    result.set(tags, HEADER_SIZE + offset);
+  }
 
-  // Padding (476 - 256 = 220 bytes) is implicit (zeros)
+  // Write MD5 trailer (last 24 bytes of data area)
+  if (block.checksum) {
+    result.set(encodeChecksumTrailer(block.checksum), HEADER_SIZE + MD5_TRAILER_OFFSET);
+  }
 
   // Write footer (4 bytes at offset 508)
   view.setUint32(508, block.magicEnd, true);    // 0x0AB16F30
 
   return result;
 }
+
+/**
+ * Helper: Add tags to a block, replacing existing tags of the same type
+ */
+function withTags(block: UF2Block, tags: UF2ExtensionTag[]): UF2Block {
+  const types = new Set(tags.map(t => t.type));
+  const kept = (block.tags ?? []).filter(t => !types.has(t.type));
+
+  return { ...block, tags: [...kept, ...tags] };
+}
+
+/**
+ * Helper: Split blocks at the payload base (special blocks stay with the base)
+ */
+function partitionBlocks(
+  blocks: UF2Block[],
+  payloadBase: number
+): { baseBlocks: UF2Block[]; payloadBlocks: UF2Block[] } {
+  const isPayload = (b: UF2Block) => !isSpecialBlock(b) && b.targetAddr >= payloadBase;
+
+  return {
+    baseBlocks: blocks.filter(b => !isPayload(b)),
+    payloadBlocks: blocks.filter(isPayload),
+  };
+}
+
+/**
+ * Helper: Offset of extension tags in the data area (payload end, 4-byte aligned)
+ */
+function tagsOffset(payloadSize: number): number {
+  return Math.ceil(Math.min(payloadSize, UF2_DATA_SIZE) / 4) * 4;
+}
+
+/**
+ * Helper: Format number as hex
+ */
+function hex(value: number): string {
+  return value.toString(16);
+}
+
+/**
+ * Helper: Format family ID with its name
+ */
+function formatFamilyID(familyID: number): string {
+  const name = getFamilyName(familyID);
+  const id = `0x${hex(familyID)}`;
+  return name ? `${name} (${id})` : id;
+}
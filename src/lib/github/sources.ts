@@ -0,0 +1,314 @@
+/**
+ * Repository Sources - Where Firmware and Payloads Are Downloaded From
+ *
+ * Base firmware and payload releases default to the upstream GitHub
+ * repositories. Forks and mirrors (e.g. PicoBoot with custom boards) are
+ * used by overriding owner, repository and release asset patterns.
+ *
+ * URL parameters (all optional):
+ * - picoboot=owner/repo           Base firmware repository
+ * - picoboot.rp2040=<pattern>     Base firmware asset for RP2040
+ * - picoboot.rp2350=<pattern>     Base firmware asset for RP2350
+ * - <provider>=owner/repo         Payload repository (e.g. gekkoboot=me/gekkoboot)
+ * - <provider>.asset=<pattern>    Payload release asset
+ *
+ * Patterns are regular expressions matched against release asset names.
+ */
+
+import type { Platform } from '../firmware/uf2-encoder';
+import { listPayloadProviders, type PayloadProvider } from '../payloads/providers';
+
+/**
+ * GitHub repository
+ */
+export interface RepositorySource {
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Base firmware repository and release assets
+ */
+export interface FirmwareSource extends RepositorySource {
+  assetPatterns: Record<Platform, string>;  // Asset name pattern per platform
+}
+
+/**
+ * Payload repository and release asset
+ */
+export interface PayloadSource extends RepositorySource {
+  assetPattern: string;                     // Asset name pattern
+}
+
+/**
+ * Repository sources for a build
+ */
+export interface SourceConfig {
+  firmware: FirmwareSource;
+  payloads: Record<string, PayloadSource>;  // By payload provider ID
+}
+
+/**
+ * Upstream PicoBoot repository
+ */
+export const DEFAULT_FIRMWARE_SOURCE: FirmwareSource = {
+  owner: 'webhdx',
+  repo: 'PicoBoot',
+  assetPatterns: {
+    RP2040: '^picoboot_pico\\.uf2$',
+    RP2350: '^picoboot_pico2\\.uf2$',
+  },
+};
+
+const FIRMWARE_PARAM = 'picoboot';
+const ASSET_PARAM_SUFFIX = '.asset';
+const PLATFORMS: Platform[] = ['RP2040', 'RP2350'];
+
+// GitHub user, organization and repository names
+const GITHUB_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Gets the default sources (upstream repositories of all registered payloads)
+ *
+ * @returns New source configuration
+ */
+export function getDefaultSourceConfig(): SourceConfig {
+  const payloads: Record<string, PayloadSource> = {};
+  for (const provider of listPayloadProviders()) {
+    payloads[provider.id] = {
+      owner: provider.owner,
+      repo: provider.repo,
+      assetPattern: provider.assetPattern.source,
+    };
+  }
+
+  return {
+    firmware: {
+      ...DEFAULT_FIRMWARE_SOURCE,
+      assetPatterns: { ...DEFAULT_FIRMWARE_SOURCE.assetPatterns },
+    },
+    payloads,
+  };
+}
+
+/**
+ * Validates a source configuration
+ *
+ * Checks:
+ * - Owners and repositories are valid GitHub names
+ * - Asset patterns are non-empty regular expressions
+ *
+ * @param config - Source configuration
+ * @throws Error if validation fails
+ */
+export function validateSourceConfig(config: SourceConfig): void {
+  checkRepository('PicoBoot', config.firmware);
+  for (const platform of PLATFORMS) {
+    checkPattern(`PicoBoot ${platform} asset`, config.firmware.assetPatterns[platform]);
+  }
+
+  for (const [id, source] of Object.entries(config.payloads)) {
+    checkRepository(id, source);
+    checkPattern(`${id} asset`, source.assetPattern);
+  }
+}
+
+/**
+ * Applies URL parameter overrides to a source configuration
+ *
+ * Unknown parameters are ignored, so sources can share the query string
+ * with other settings.
+ *
+ * @param params - URL query parameters
+ * @param base - Configuration to override (default: getDefaultSourceConfig())
+ * @returns New configuration with overrides applied
+ * @throws Error if an override is invalid
+ */
+export function parseSourceParams(
+  params: URLSearchParams,
+  base: SourceConfig = getDefaultSourceConfig()
+): SourceConfig {
+  const config: SourceConfig = {
+    firmware: { ...base.firmware, assetPatterns: { ...base.firmware.assetPatterns } },
+    payloads: Object.fromEntries(
+      Object.entries(base.payloads).map(([id, source]) => [id, { ...source }])
+    ),
+  };
+
+  const firmwareRepo = params.get(FIRMWARE_PARAM);
+  if (firmwareRepo !== null) {
+    Object.assign(config.firmware, parseRepository(FIRMWARE_PARAM, firmwareRepo));
+  }
+
+  for (const platform of PLATFORMS) {
+    const pattern = params.get(`${FIRMWARE_PARAM}.${platform.toLowerCase()}`);
+    if (pattern !== null) {
+      config.firmware.assetPatterns[platform] = pattern;
+    }
+  }
+
+  for (const [id, source] of Object.entries(config.payloads)) {
+    const repo = params.get(id);
+    if (repo !== null) {
+      Object.assign(source, parseRepository(id, repo));
+    }
+
+    const pattern = params.get(id + ASSET_PARAM_SUFFIX);
+    if (pattern !== null) {
+      source.assetPattern = pattern;
+    }
+  }
+
+  validateSourceConfig(config);
+  return config;
+}
+
+/**
+ * Converts a source configuration to URL parameters
+ *
+ * Only values that differ from the defaults are included, so the default
+ * configuration gives an empty query string.
+ *
+ * @param config - Source configuration
+ * @param defaults - Configuration to compare with (default: getDefaultSourceConfig())
+ * @returns URL query parameters (inverse of parseSourceParams)
+ */
+export function toSourceParams(
+  config: SourceConfig,
+  defaults: SourceConfig = getDefaultSourceConfig()
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (!sameRepository(config.firmware, defaults.firmware)) {
+    params.set(FIRMWARE_PARAM, `${config.firmware.owner}/${config.firmware.repo}`);
+  }
+
+  for (const platform of PLATFORMS) {
+    if (config.firmware.assetPatterns[platform] !== defaults.firmware.assetPatterns[platform]) {
+      params.set(`${FIRMWARE_PARAM}.${platform.toLowerCase()}`, config.firmware.assetPatterns[platform]);
+    }
+  }
+
+  for (const [id, source] of Object.entries(config.payloads)) {
+    const fallback = defaults.payloads[id];
+
+    if (!fallback || !sameRepository(source, fallback)) {
+      params.set(id, `${source.owner}/${source.repo}`);
+    }
+
+    if (source.assetPattern !== fallback?.assetPattern) {
+      params.set(id + ASSET_PARAM_SUFFIX, source.assetPattern);
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Replaces the source parameters of a query string
+ *
+ * Source parameters (of the configuration and the defaults) are removed,
+ * then those of toSourceParams() are added. Other parameters are kept.
+ *
+ * @param params - Current URL query parameters
+ * @param config - Source configuration
+ * @param defaults - Configuration to compare with (default: getDefaultSourceConfig())
+ * @returns New URL query parameters
+ */
+export function updateSourceParams(
+  params: URLSearchParams,
+  config: SourceConfig,
+  defaults: SourceConfig = getDefaultSourceConfig()
+): URLSearchParams {
+  const result = new URLSearchParams(params);
+
+  result.delete(FIRMWARE_PARAM);
+  for (const platform of PLATFORMS) {
+    result.delete(`${FIRMWARE_PARAM}.${platform.toLowerCase()}`);
+  }
+
+  for (const id of new Set([...Object.keys(defaults.payloads), ...Object.keys(config.payloads)])) {
+    result.delete(id);
+    result.delete(id + ASSET_PARAM_SUFFIX);
+  }
+
+  for (const [name, value] of toSourceParams(config, defaults)) {
+    result.set(name, value);
+  }
+
+  return result;
+}
+
+/**
+ * Gets the base firmware asset pattern for a platform
+ *
+ * @param source - Base firmware source
+ * @param platform - Target platform
+ * @returns Asset name pattern
+ */
+export function getFirmwareAssetPattern(source: FirmwareSource, platform: Platform): RegExp {
+  return new RegExp(source.assetPatterns[platform]);
+}
+
+/**
+ * Applies a payload source to a payload provider
+ *
+ * @param provider - Registered payload provider
+ * @param config - Source configuration
+ * @returns Provider downloading from the configured repository
+ */
+export function withPayloadSource(provider: PayloadProvider, config: SourceConfig): PayloadProvider {
+  const source = config.payloads[provider.id];
+  if (!source) {
+    return provider;
+  }
+
+  return {
+    ...provider,
+    owner: source.owner,
+    repo: source.repo,
+    assetPattern: new RegExp(source.assetPattern),
+  };
+}
+
+/**
+ * Helper: Parse an "owner/repo" parameter
+ */
+function parseRepository(name: string, value: string): RepositorySource {
+  const [owner, repo, ...rest] = value.split('/');
+  if (!repo || rest.length > 0) {
+    throw new Error(`Invalid ${name} repository "${value}" (expected owner/repo)`);
+  }
+  return { owner, repo };
+}
+
+/**
+ * Helper: Ensure owner and repository are valid GitHub names
+ */
+function checkRepository(name: string, source: RepositorySource): void {
+  if (!GITHUB_NAME_PATTERN.test(source.owner) || !GITHUB_NAME_PATTERN.test(source.repo)) {
+    throw new Error(`Invalid ${name} repository "${source.owner}/${source.repo}"`);
+  }
+}
+
+/**
+ * Helper: Ensure an asset pattern is a valid regular expression
+ */
+function checkPattern(name: string, pattern: string): void {
+  if (!pattern) {
+    throw new Error(`Missing ${name} pattern`);
+  }
+
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    throw new Error(`Invalid ${name} pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Helper: Compare repositories
+ */
+function sameRepository(a: RepositorySource, b: RepositorySource): boolean {
+  return a.owner === b.owner && a.repo === b.repo;
+}
@@ -0,0 +1,135 @@
+/**
+ * Local Payload - Payload Files from Disk
+ *
+ * Lets unreleased payload builds go through the pipeline without a GitHub
+ * release. The file format is detected from its contents, not its name:
+ * - zip: "PK\x03\x04" (or "PK\x05\x06" for an empty archive)
+ * - tar.xz: XZ stream header "\xFD7zXZ\0"
+ * - elf: "\x7FELF"
+ * - dol: no magic, recognized by an entry point in MEM1
+ *
+ * Archives are listed so the user can choose the executable. Everything
+ * runs locally, nothing is downloaded.
+ */
+
+import { extractFromZip, listZipContents } from '../archive/zip-extractor';
+import { extractFromTarXzByName, listTarXzContents } from '../archive/tar-extractor';
+import { isELF } from '../firmware/elf-parser';
+import { DOL_HEADER_SIZE, DOL_ENTRY_POINT_OFFSET, MEM1_START, MEM1_END } from '../firmware/dol-parser';
+
+/**
+ * Detected local payload format
+ */
+export type LocalPayloadFormat = 'dol' | 'elf' | 'zip' | 'tar.xz';
+
+/**
+ * Payload selector value for a local file (not a registered provider)
+ */
+export const LOCAL_PAYLOAD_ID = 'custom';
+
+const ZIP_MAGIC = [0x50, 0x4B, 0x03, 0x04];
+const ZIP_EMPTY_MAGIC = [0x50, 0x4B, 0x05, 0x06];
+const XZ_MAGIC = [0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00];
+
+/**
+ * Detects the format of a payload file by its magic bytes
+ *
+ * @param data - File contents
+ * @returns Detected format, or null if the file is not a supported payload
+ */
+export function detectPayloadFormat(data: Uint8Array): LocalPayloadFormat | null {
+  if (hasMagic(data, ZIP_MAGIC) || hasMagic(data, ZIP_EMPTY_MAGIC)) {
+    return 'zip';
+  }
+
+  if (hasMagic(data, XZ_MAGIC)) {
+    return 'tar.xz';
+  }
+
+  if (isELF(data)) {
+    return 'elf';
+  }
+
+  if (data.byteLength >= DOL_HEADER_SIZE) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const entryPoint = view.getUint32(DOL_ENTRY_POINT_OFFSET, false);
+    if (entryPoint >= MEM1_START && entryPoint < MEM1_END) {
+      return 'dol';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a payload format is an archive
+ *
+ * @param format - Payload format
+ * @returns True for zip and tar.xz
+ */
+export function isPayloadArchive(format: LocalPayloadFormat): boolean {
+  return format === 'zip' || format === 'tar.xz';
+}
+
+/**
+ * Lists the files in a payload archive
+ *
+ * Directory entries are left out. Executables (.dol, .elf) come first so
+ * the first entry is a sensible default.
+ *
+ * @param data - Archive contents
+ * @param format - Archive format
+ * @returns File names inside the archive (empty for dol and elf)
+ * @throws {ZipExtractionError | TarExtractionError} If the archive cannot be read
+ */
+export async function listPayloadArchive(
+  data: Uint8Array,
+  format: LocalPayloadFormat
+): Promise<string[]> {
+  if (!isPayloadArchive(format)) {
+    return [];
+  }
+
+  const names = format === 'zip'
+    ? await listZipContents(data)
+    : await listTarXzContents(data);
+
+  const files = names.filter(name => !name.endsWith('/'));
+  const isExecutable = (name: string) => /\.(dol|elf)$/i.test(name);
+
+  return [...files.filter(isExecutable), ...files.filter(name => !isExecutable(name))];
+}
+
+/**
+ * Extracts the payload executable from a local file
+ *
+ * @param data - File contents
+ * @param format - File format (see detectPayloadFormat)
+ * @param entry - File inside the archive (required for zip and tar.xz)
+ * @returns Payload executable (DOL or ELF)
+ * @throws Error if an archive entry is missing or not found
+ */
+export async function extractLocalPayload(
+  data: Uint8Array,
+  format: LocalPayloadFormat,
+  entry?: string
+): Promise<Uint8Array> {
+  if (!isPayloadArchive(format)) {
+    return data;
+  }
+
+  if (!entry) {
+    throw new Error(`Choose a file from the ${format} archive`);
+  }
+
+  return format === 'zip'
+    ? extractFromZip(data, entry)
+    : extractFromTarXzByName(data, entry);
+}
+
+/**
+ * Helper: Check leading magic bytes
+ */
+function hasMagic(data: Uint8Array, magic: number[]): boolean {
+  return data.byteLength >= magic.length && magic.every((b, i) => data[i] === b);
+}
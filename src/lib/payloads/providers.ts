@@ -0,0 +1,157 @@
+/**
+ * Payload Providers - Registry of Payload Sources
+ *
+ * Describes where a payload is published (GitHub repository and release
+ * asset) and how to get the executable out of the asset. Adding a
+ * payload is a declaration here, not code in the build store.
+ *
+ * Archive types:
+ * - zip: executable matched by innerFilePattern (e.g. gekkoboot)
+ * - tar.xz: executable matched by innerFilePattern (e.g. Swiss)
+ * - dol: the release asset is the executable itself
+ *
+ * Custom providers can be added at runtime with registerPayloadProvider().
+ */
+
+import { extractFromZipByPattern } from '../archive/zip-extractor';
+import { extractFromTarXz } from '../archive/tar-extractor';
+
+/**
+ * Release asset packaging
+ */
+export type PayloadArchiveType = 'zip' | 'tar.xz' | 'dol';
+
+/**
+ * Payload source
+ */
+export interface PayloadProvider {
+  id: string;                 // Unique ID, also the IPLBOOT payload name (max 10 ASCII chars)
+  name: string;               // Display name
+  owner: string;              // GitHub owner
+  repo: string;               // GitHub repository
+  assetPattern: RegExp;       // Release asset to download
+  archiveType: PayloadArchiveType;
+  innerFilePattern?: RegExp;  // Executable inside the archive (zip and tar.xz)
+  sizeHint: number;           // Approximate executable size in bytes
+  description: string;
+}
+
+const IPLBOOT_NAME_SIZE = 10;
+
+/**
+ * Built-in payload providers
+ */
+export const BUILTIN_PAYLOAD_PROVIDERS: readonly PayloadProvider[] = [
+  {
+    id: 'gekkoboot',
+    name: 'Gekkoboot',
+    owner: 'webhdx',
+    repo: 'gekkoboot',
+    assetPattern: /\.zip$/,
+    archiveType: 'zip',
+    innerFilePattern: /gekkoboot\.dol$/,
+    sizeHint: 600 * 1024,
+    description: 'Minimal GameCube IPL bootloader',
+  },
+  {
+    id: 'swiss',
+    name: 'Swiss',
+    owner: 'emukidid',
+    repo: 'swiss-gc',
+    assetPattern: /\.tar\.xz$/,
+    archiveType: 'tar.xz',
+    innerFilePattern: /DOL\/swiss.*\.dol$/,
+    sizeHint: 4 * 1024 * 1024,
+    description: 'GameCube homebrew and backup loader',
+  },
+];
+
+/**
+ * Default payload provider ID
+ */
+export const DEFAULT_PAYLOAD_PROVIDER = 'gekkoboot';
+
+const registry = new Map<string, PayloadProvider>(
+  BUILTIN_PAYLOAD_PROVIDERS.map(provider => [provider.id, provider])
+);
+
+/**
+ * Registers a payload provider (replaces a provider with the same ID)
+ *
+ * @param provider - Provider to register
+ * @throws Error if the provider is inconsistent
+ */
+export function registerPayloadProvider(provider: PayloadProvider): void {
+  validatePayloadProvider(provider);
+  registry.set(provider.id, provider);
+}
+
+/**
+ * Gets a registered payload provider
+ *
+ * @param id - Provider ID
+ * @returns Payload provider
+ * @throws Error if no provider has this ID
+ */
+export function getPayloadProvider(id: string): PayloadProvider {
+  const provider = registry.get(id);
+  if (!provider) {
+    throw new Error(`Unknown payload provider: ${id}`);
+  }
+  return provider;
+}
+
+/**
+ * Lists registered payload providers
+ *
+ * @returns Providers in registration order
+ */
+export function listPayloadProviders(): PayloadProvider[] {
+  return [...registry.values()];
+}
+
+/**
+ * Validates a payload provider
+ *
+ * Checks:
+ * - ID is 1-10 printable ASCII characters (stored in the IPLBOOT header)
+ * - Archives declare the executable to extract
+ *
+ * @param provider - Provider to validate
+ * @throws Error if validation fails
+ */
+export function validatePayloadProvider(provider: PayloadProvider): void {
+  if (!/^[\x20-\x7E]+$/.test(provider.id) || provider.id.length > IPLBOOT_NAME_SIZE) {
+    throw new Error(
+      `Payload provider ID must be 1-${IPLBOOT_NAME_SIZE} ASCII characters: "${provider.id}"`
+    );
+  }
+
+  if (provider.archiveType !== 'dol' && !provider.innerFilePattern) {
+    throw new Error(`Payload provider ${provider.id}: ${provider.archiveType} needs an inner file pattern`);
+  }
+}
+
+/**
+ * Extracts the payload executable from a downloaded release asset
+ *
+ * @param provider - Payload provider
+ * @param asset - Release asset contents
+ * @returns Payload executable (DOL or ELF)
+ * @throws Error if the executable is not in the archive
+ */
+export async function extractPayloadExecutable(
+  provider: PayloadProvider,
+  asset: Uint8Array
+): Promise<Uint8Array> {
+  if (provider.archiveType === 'dol') {
+    return asset;
+  }
+
+  validatePayloadProvider(provider);
+  const pattern = provider.innerFilePattern as RegExp;
+
+  return provider.archiveType === 'zip'
+    ? extractFromZipByPattern(asset, pattern)
+    : extractFromTarXz(asset, pattern);
+}
@@ -0,0 +1,36 @@
+/**
+ * CRC-32 (IEEE 802.3, polynomial 0xEDB88320 reflected)
+ * Same checksum as zlib/PNG/ZIP
+ */
+
+let table: Uint32Array | null = null
+
+function getTable(): Uint32Array {
+  if (table) return table
+
+  table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+}
+
+/**
+ * Calculate CRC-32 checksum for binary data
+ * @param data Binary data
+ * @returns Unsigned 32-bit checksum
+ */
+export function calculateCRC32(data: Uint8Array): number {
+  const lookup = getTable()
+  let crc = 0xFFFFFFFF
+
+  for (let i = 0; i < data.byteLength; i++) {
+    crc = lookup[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8)
+  }
+
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
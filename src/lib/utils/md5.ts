@@ -0,0 +1,93 @@
+/**
+ * MD5 (RFC 1321)
+ * Synchronous implementation - SubtleCrypto does not support MD5.
+ * Used for UF2 block checksums, not for security.
+ */
+
+// Per-round shift amounts
+const S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+// K[i] = floor(abs(sin(i + 1)) * 2^32)
+const K = Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0
+)
+
+/**
+ * Calculate MD5 digest for binary data
+ * @param data Binary data
+ * @returns 16-byte digest
+ */
+export function calculateMD5(data: Uint8Array): Uint8Array {
+  // Pad: 0x80, zeros, then bit length (64-bit little-endian)
+  const paddedLength = Math.ceil((data.byteLength + 9) / 64) * 64
+  const padded = new Uint8Array(paddedLength)
+  padded.set(data)
+  padded[data.byteLength] = 0x80
+
+  const view = new DataView(padded.buffer)
+  const bitLength = data.byteLength * 8
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true)
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true)
+
+  let a0 = 0x67452301
+  let b0 = 0xEFCDAB89
+  let c0 = 0x98BADCFE
+  let d0 = 0x10325476
+
+  const m = new Uint32Array(16)
+
+  for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+    for (let i = 0; i < 16; i++) {
+      m[i] = view.getUint32(chunk + i * 4, true)
+    }
+
+    let a = a0
+    let b = b0
+    let c = c0
+    let d = d0
+
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+
+      const sum = (a + f + K[i] + m[g]) | 0
+      a = d
+      d = c
+      c = b
+      b = (b + ((sum << S[i]) | (sum >>> (32 - S[i])))) | 0
+    }
+
+    a0 = (a0 + a) | 0
+    b0 = (b0 + b) | 0
+    c0 = (c0 + c) | 0
+    d0 = (d0 + d) | 0
+  }
+
+  const digest = new Uint8Array(16)
+  const out = new DataView(digest.buffer)
+  out.setUint32(0, a0, true)
+  out.setUint32(4, b0, true)
+  out.setUint32(8, c0, true)
+  out.setUint32(12, d0, true)
+
+  return digest
+}
@@ -1,33 +1,126 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
+import { ref, computed, watch } from 'vue'
 import { toast } from 'vue-sonner'
-import type { BuildStep, Platform } from '@/types/build'
+import type {
+  BaseFirmwareSource,
+  BuildStep,
+  FirmwareSplit,
+  LocalBaseFirmware,
+  LocalPayload,
+  Platform,
+} from '@/types/build'
 import {
+  downloadFirmwareAsset,
   downloadFirmwareAssetByPattern,
   downloadPayloadAssetByPattern,
   fetchLatestRelease,
   fetchReleaseByTag,
+  fetchReleases,
 } from '@/lib/github/releases'
-import { extractFromZipByPattern } from '@/lib/archive/zip-extractor'
-import { parseDOLHeader, validateDOL } from '@/lib/firmware/dol-parser'
-import { scramble } from '@/lib/firmware/scrambler'
-import { wrapPayload } from '@/lib/firmware/payload-wrapper'
-import { encodeToUF2 } from '@/lib/firmware/uf2-encoder'
-import { mergeUF2, type MergeResult } from '@/lib/firmware/uf2-merger'
+import {
+  DEFAULT_FIRMWARE_SOURCE,
+  getDefaultSourceConfig,
+  getFirmwareAssetPattern,
+  parseSourceParams,
+  updateSourceParams,
+  validateSourceConfig,
+  withPayloadSource,
+  type SourceConfig,
+} from '@/lib/github/sources'
+import {
+  DEFAULT_PAYLOAD_PROVIDER,
+  extractPayloadExecutable,
+  getPayloadProvider,
+} from '@/lib/payloads/providers'
+import {
+  detectPayloadFormat,
+  extractLocalPayload,
+  isPayloadArchive,
+  listPayloadArchive,
+  LOCAL_PAYLOAD_ID,
+} from '@/lib/payloads/local-payload'
+import type { DOLReport } from '@/lib/firmware/dol-parser'
+import { splitUF2, type UF2Report } from '@/lib/firmware/uf2-merger'
+import { decodePicoBootPayload } from '@/lib/firmware/payload-decoder'
+import {
+  hashBaseFirmware,
+  identifyBaseFirmware,
+  validateBaseFirmware,
+  type KnownBaseFirmware,
+} from '@/lib/firmware/base-firmware'
+import {
+  PayloadValidationError,
+  type FirmwareBuildMode,
+  type FirmwareBuildStage,
+} from '@/lib/firmware/pipeline'
+import { FirmwareBuilder, FirmwareBuildCancelledError } from '@/lib/firmware/firmware-builder'
+import { calculateWrappedSize } from '@/lib/firmware/payload-wrapper'
+import {
+  getDefaultFlashLayout,
+  getFlashLayout,
+  getPayloadBudget,
+  PayloadTooLargeError,
+  type PayloadBudget,
+} from '@/lib/firmware/flash-layout'
 import { calculateSHA256 } from '@/lib/utils/checksum'
 import { createDownloadURL } from '@/lib/storage/downloads'
 
-export type { Platform, BuildStep }
+export type { Platform, BuildStep, FirmwareSplit, LocalPayload, BaseFirmwareSource, LocalBaseFirmware }
+
+// Longest an update build waits to name the existing base (then uses the file name)
+const IDENTIFY_TIMEOUT_MS = 3000
+
+// Sources from URL parameters, defaults and the validation error if they are invalid
+function readSourceConfig(): { config: SourceConfig; error: string | null } {
+  try {
+    return { config: parseSourceParams(new URLSearchParams(window.location.search)), error: null }
+  } catch (error) {
+    return {
+      config: getDefaultSourceConfig(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
 
 export const useBuildStore = defineStore('build', () => {
   // State
+  const urlSources = readSourceConfig()
+  const sourceConfig = ref<SourceConfig>(urlSources.config)
+  // Invalid URL sources block builds until they are fixed or reset
+  const sourceConfigError = ref<string | null>(urlSources.error)
   const picobootVersion = ref('latest')
   const platform = ref<Platform>('RP2040')
+  const flashLayoutId = ref(getDefaultFlashLayout('RP2040').id)
+  const payloadProviderId = ref(DEFAULT_PAYLOAD_PROVIDER)
   const payloadVersion = ref('latest')
 
+  // Payload file from disk, used when payloadProviderId is LOCAL_PAYLOAD_ID
+  const localPayload = ref<LocalPayload | null>(null)
+  const isReadingPayload = ref(false)
+
+  // 'update' mode replaces the payload of a user-provided firmware
+  const buildMode = ref<FirmwareBuildMode>('build')
+  const existingFirmware = ref<{ name: string; data: Uint8Array } | null>(null)
+
+  // Build mode base firmware: a PicoBoot release or a locally built UF2
+  const baseSource = ref<BaseFirmwareSource>('release')
+  const localBaseFirmware = ref<LocalBaseFirmware | null>(null)
+  const isReadingBase = ref(false)
+
   const isBuilding = ref(false)
   const buildProgress = ref(0)
   const buildSteps = ref<BuildStep[]>([])
+  const payloadReport = ref<DOLReport | null>(null)
+  const firmwareReport = ref<UF2Report | null>(null)
+  const payloadBudget = ref<PayloadBudget | null>(null)
+
+  const isSplitting = ref(false)
+  const firmwareSplit = ref<FirmwareSplit | null>(null)
+
+  const firmwareBuilder = new FirmwareBuilder()
+  const knownBaseFirmware = new Map<string, Promise<KnownBaseFirmware[]>>()
+  let baseCheck = 0  // Latest local base check, earlier results are ignored
+  let abortController: AbortController | null = null
 
   const firmwareData = ref<Uint8Array | null>(null)
   const firmwareChecksum = ref('')
@@ -36,7 +129,38 @@ export const useBuildStore = defineStore('build', () => {
 
   // Computed
   const canBuild = computed(() => {
-    return picobootVersion.value && platform.value && payloadVersion.value && !isBuilding.value
+    const hasBase = buildMode.value === 'update'
+      ? !!existingFirmware.value
+      : baseSource.value === 'file' ? !!localBaseFirmware.value && !isReadingBase.value : !!picobootVersion.value
+    const hasPayload = payloadProviderId.value === LOCAL_PAYLOAD_ID
+      ? !!localPayload.value && (!isPayloadArchive(localPayload.value.format) || !!localPayload.value.entry)
+      : !!payloadVersion.value
+    return hasBase && platform.value && hasPayload && !sourceConfigError.value && !isBuilding.value
+  })
+
+  // Expected payload space of the selected release payload (from its size hint).
+  // Only a warning: the build checks the size of the downloaded payload.
+  const payloadSizeEstimate = computed<PayloadBudget | null>(() => {
+    if (payloadProviderId.value === LOCAL_PAYLOAD_ID) return null
+    const { sizeHint } = getPayloadProvider(payloadProviderId.value)
+    return getPayloadBudget(calculateWrappedSize(sizeHint), getFlashLayout(flashLayoutId.value))
+  })
+
+  // Versions are per payload, fall back to the latest release
+  watch(payloadProviderId, () => {
+    payloadVersion.value = 'latest'
+  })
+
+  // Layouts are per platform, fall back to the platform default
+  watch(platform, (value) => {
+    flashLayoutId.value = getDefaultFlashLayout(value).id
+  })
+
+  // A local base is checked against the selected layout, check it again when that changes
+  watch([platform, flashLayoutId], () => {
+    if (!localBaseFirmware.value) return
+    const { name, data } = localBaseFirmware.value
+    readLocalBase(name, async () => data, 'Base firmware removed')
   })
 
   // Helper to update step status
@@ -47,115 +171,255 @@ export const useBuildStore = defineStore('build', () => {
     }
   }
 
+  // Helper to download the selected PicoBoot release firmware
+  async function fetchBaseFirmware() {
+    const { owner, repo } = sourceConfig.value.firmware
+    const assetPattern = getFirmwareAssetPattern(sourceConfig.value.firmware, platform.value)
+
+    const release = picobootVersion.value === 'latest'
+      ? await fetchLatestRelease(owner, repo)
+      : await fetchReleaseByTag(owner, repo, picobootVersion.value)
+
+    const baseFirmwareResult = await downloadFirmwareAssetByPattern(
+      owner,
+      repo,
+      release.tag_name,
+      assetPattern
+    )
+
+    if (!baseFirmwareResult) {
+      throw new Error(`Base firmware matching ${assetPattern.source} not found in release ${release.tag_name}`)
+    }
+
+    const upstream = owner === DEFAULT_FIRMWARE_SOURCE.owner && repo === DEFAULT_FIRMWARE_SOURCE.repo
+    const label = upstream ? `PicoBoot ${release.tag_name}` : `${owner}/${repo} ${release.tag_name}`
+
+    return { data: baseFirmwareResult.data, label }
+  }
+
+  // Helper to copy the existing firmware (the build transfers its buffer)
+  async function readExistingFirmware() {
+    if (!existingFirmware.value) {
+      throw new Error('No existing firmware selected')
+    }
+
+    const { name, data } = existingFirmware.value
+    return { data: data.slice(), label: await withTimeout(identifyExistingBase(data), IDENTIFY_TIMEOUT_MS) ?? name }
+  }
+
+  // Helper to give up waiting for a best-effort lookup (it keeps running)
+  function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), ms)
+    })
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+  }
+
+  // Helper to name the PicoBoot release an existing firmware was built on
+  async function identifyExistingBase(data: Uint8Array) {
+    try {
+      const { base } = splitUF2(data, { layout: getFlashLayout(flashLayoutId.value) })
+      const { match } = await identifyBaseFirmware(base, await fetchKnownBaseFirmware())
+      return match ? `PicoBoot ${match.version}` : null
+    } catch {
+      // Best effort: invalid firmware fails the merge, offline falls back to the file name
+      return null
+    }
+  }
+
+  // Helper to download the selected payload release and extract its executable
+  async function fetchPayload() {
+    const provider = withPayloadSource(getPayloadProvider(payloadProviderId.value), sourceConfig.value)
+
+    const payloadRelease = payloadVersion.value === 'latest'
+      ? await fetchLatestRelease(provider.owner, provider.repo)
+      : await fetchReleaseByTag(provider.owner, provider.repo, payloadVersion.value)
+
+    const payloadResult = await downloadPayloadAssetByPattern(
+      provider.owner,
+      provider.repo,
+      payloadRelease.tag_name,
+      provider.assetPattern
+    )
+
+    if (!payloadResult) {
+      throw new Error(`${provider.name} asset not found in release ${payloadRelease.tag_name}`)
+    }
+
+    return {
+      asset: payloadResult.data,
+      extract: (asset: Uint8Array) => extractPayloadExecutable(provider, asset),
+      name: provider.id,
+      label: `${provider.id} ${payloadRelease.tag_name}`,
+    }
+  }
+
+  // Helper to use the payload file from disk (no network access)
+  function readLocalPayload() {
+    if (!localPayload.value) {
+      throw new Error('No payload file selected')
+    }
+
+    const { name, data, format, entry } = localPayload.value
+    return {
+      asset: data.slice(),
+      extract: (asset: Uint8Array) => extractLocalPayload(asset, format, entry ?? undefined),
+      name: LOCAL_PAYLOAD_ID,
+      label: entry ? `${name}:${entry}` : name,
+    }
+  }
+
+  // Helper to copy the local base firmware (the build transfers its buffer)
+  function readLocalBaseFirmware() {
+    if (!localBaseFirmware.value) {
+      throw new Error('No base firmware selected')
+    }
+
+    const { name, data, match } = localBaseFirmware.value
+    return { data: data.slice(), label: match ? `PicoBoot ${match.version}` : name }
+  }
+
+  // Helper to hash the selected platform's base firmware asset of every release
+  function fetchKnownBaseFirmware() {
+    const source = sourceConfig.value.firmware
+    const assetPattern = getFirmwareAssetPattern(source, platform.value)
+    const key = `${source.owner}/${source.repo}:${assetPattern.source}`
+
+    // Hashed once per session, retried if GitHub could not be reached
+    let known = knownBaseFirmware.get(key)
+    if (!known) {
+      known = hashReleaseAssets(source.owner, source.repo, assetPattern)
+      knownBaseFirmware.set(key, known)
+      known.catch(() => knownBaseFirmware.delete(key))
+    }
+
+    return known
+  }
+
+  // Helper to download and hash the matching asset of each release
+  async function hashReleaseAssets(owner: string, repo: string, assetPattern: RegExp) {
+    const known: KnownBaseFirmware[] = []
+
+    for (const release of await fetchReleases(owner, repo)) {
+      const asset = release.assets.find(a => assetPattern.test(a.name))
+      if (!asset) continue
+
+      const data = await downloadFirmwareAsset(owner, repo, release.tag_name, asset.id, asset.name)
+      known.push({ version: release.tag_name, assetName: asset.name, sha256: await hashBaseFirmware(data) })
+    }
+
+    return known
+  }
+
   // Actions
   async function buildFirmware() {
     if (!canBuild.value) return
 
     isBuilding.value = true
     buildProgress.value = 0
+    payloadReport.value = null
+    payloadBudget.value = null
+    firmwareReport.value = null
+    abortController = new AbortController()
+    const updating = buildMode.value === 'update'
+    const localBase = !updating && baseSource.value === 'file'
+    const local = payloadProviderId.value === LOCAL_PAYLOAD_ID
     buildSteps.value = [
-      { id: '1', label: 'Fetching PicoBoot firmware...', status: 'in_progress' },
-      { id: '2', label: 'Fetching Gekkoboot payload...', status: 'pending' },
+      {
+        id: '1',
+        label: updating
+          ? 'Reading existing firmware...'
+          : localBase ? 'Reading base firmware...' : 'Fetching PicoBoot firmware...',
+        status: 'in_progress',
+      },
+      {
+        id: '2',
+        label: local
+          ? 'Reading payload file...'
+          : `Fetching ${getPayloadProvider(payloadProviderId.value).name} payload...`,
+        status: 'pending',
+      },
       { id: '3', label: 'Extracting DOL file...', status: 'pending' },
       { id: '4', label: 'Processing payload...', status: 'pending' },
       { id: '5', label: 'Generating UF2 blocks...', status: 'pending' },
-      { id: '6', label: 'Merging firmware...', status: 'pending' },
-      { id: '7', label: 'Calculating checksum...', status: 'pending' },
+      { id: '6', label: updating ? 'Replacing payload...' : 'Merging firmware...', status: 'pending' },
+      { id: '7', label: 'Verifying firmware...', status: 'pending' },
+      { id: '8', label: 'Calculating checksum...', status: 'pending' },
     ]
 
     try {
-      // Step 1: Fetch PicoBoot base firmware
-      const assetName = platform.value === 'RP2040' ? 'picoboot_pico.uf2' : 'picoboot_pico2.uf2'
-
-      const release = picobootVersion.value === 'latest'
-        ? await fetchLatestRelease('webhdx', 'PicoBoot')
-        : await fetchReleaseByTag('webhdx', 'PicoBoot', picobootVersion.value)
-
-      const baseFirmwareResult = await downloadFirmwareAssetByPattern(
-        'webhdx',
-        'PicoBoot',
-        release.tag_name,
-        new RegExp(assetName)
-      )
-
-      if (!baseFirmwareResult) {
-        throw new Error(`Base firmware ${assetName} not found in release ${release.tag_name}`)
-      }
+      // Step 1: Fetch PicoBoot base firmware (or use the existing or local firmware)
+      const base = updating
+        ? await readExistingFirmware()
+        : localBase ? readLocalBaseFirmware() : await fetchBaseFirmware()
 
       updateStep(0, 'completed')
       buildProgress.value = 14
 
-      // Step 2: Fetch Gekkoboot payload
+      // Step 2: Fetch payload archive (or read the payload file)
       updateStep(1, 'in_progress')
 
-      const payloadRelease = payloadVersion.value === 'latest'
-        ? await fetchLatestRelease('webhdx', 'gekkoboot')
-        : await fetchReleaseByTag('webhdx', 'gekkoboot', payloadVersion.value)
-
-      const payloadResult = await downloadPayloadAssetByPattern(
-        'webhdx',
-        'gekkoboot',
-        payloadRelease.tag_name,
-        /\.zip$/
-      )
-
-      if (!payloadResult) {
-        throw new Error('Gekkoboot ZIP not found in release')
-      }
+      const payload = local ? readLocalPayload() : await fetchPayload()
 
       updateStep(1, 'completed')
       buildProgress.value = 28
 
-      // Step 3: Extract DOL from ZIP
+      // Step 3: Extract DOL from archive
       updateStep(2, 'in_progress')
 
-      const dolFile = await extractFromZipByPattern(payloadResult.data, /gekkoboot\.dol$/)
-      if (!dolFile) {
-        throw new Error('gekkoboot.dol not found in ZIP archive')
-      }
+      const dolFile = await payload.extract(payload.asset)
 
       updateStep(2, 'completed')
       buildProgress.value = 42
 
-      // Step 4: Process payload (parse, scramble, wrap)
+      // Steps 4-7: Process payload, generate UF2 blocks, merge, verify (in worker)
       updateStep(3, 'in_progress')
 
-      const dolHeader = parseDOLHeader(dolFile)
-      validateDOL(dolHeader, dolFile)
-      const scrambled = scramble(dolFile)
-      const wrapped = wrapPayload(scrambled)
-
-      updateStep(3, 'completed')
-      buildProgress.value = 56
-
-      // Step 5: Generate UF2 blocks
-      updateStep(4, 'in_progress')
-
-      const payloadUF2Result = encodeToUF2(wrapped, {
-        familyId: platform.value,
-        targetAddr: 0x10080000
-      })
-
-      updateStep(4, 'completed')
-      buildProgress.value = 70
-
-      // Step 6: Merge firmware
-      updateStep(5, 'in_progress')
+      const stageSteps: Record<FirmwareBuildStage, { index: number; progress: number }> = {
+        process: { index: 3, progress: 42 },
+        encode: { index: 4, progress: 52 },
+        merge: { index: 5, progress: 62 },
+        verify: { index: 6, progress: 74 },
+      }
 
-      const mergeResult = mergeUF2(baseFirmwareResult.data, payloadUF2Result.data)
+      const mergeResult = await firmwareBuilder.build(
+        {
+          executable: dolFile,
+          baseFirmware: base.data,
+          platform: platform.value,
+          mode: buildMode.value,
+          layout: getFlashLayout(flashLayoutId.value),
+          payloadName: payload.name,
+          timestamp: Math.floor(Date.now() / 1000),
+          versionTag: `${base.label} + ${payload.label}`,
+        },
+        {
+          signal: abortController.signal,
+          onProgress: (stage) => {
+            const { index, progress } = stageSteps[stage]
+            for (let i = 3; i < index; i++) updateStep(i, 'completed')
+            updateStep(index, 'in_progress')
+            buildProgress.value = progress
+          },
+        }
+      )
+      payloadReport.value = mergeResult.report
+      firmwareReport.value = mergeResult.uf2Report
+      payloadBudget.value = mergeResult.budget
 
-      updateStep(5, 'completed')
+      updateStep(6, 'completed')
       buildProgress.value = 85
 
-      // Step 7: Calculate checksum
-      updateStep(6, 'in_progress')
+      // Step 8: Calculate checksum
+      updateStep(7, 'in_progress')
 
       firmwareData.value = mergeResult.data
       firmwareChecksum.value = await calculateSHA256(mergeResult.data)
       firmwareDownloadUrl.value = createDownloadURL(mergeResult.data, 'application/octet-stream', true)
-      firmwareFilename.value = `picoboot_gekkoboot_${platform.value.toLowerCase()}.uf2`
+      firmwareFilename.value = `picoboot_${payload.name}_${platform.value.toLowerCase()}.uf2`
 
-      updateStep(6, 'completed')
+      updateStep(7, 'completed')
       buildProgress.value = 100
 
       toast.success('Firmware built successfully!', {
@@ -163,6 +427,19 @@ export const useBuildStore = defineStore('build', () => {
       })
 
     } catch (error) {
+      if (error instanceof FirmwareBuildCancelledError) {
+        toast.info('Build cancelled')
+        return
+      }
+
+      if (error instanceof PayloadValidationError) {
+        payloadReport.value = error.report
+      }
+
+      if (error instanceof PayloadTooLargeError) {
+        payloadBudget.value = error.budget
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       const currentStep = buildSteps.value.find((s: BuildStep) => s.status === 'in_progress')
       if (currentStep) {
@@ -175,13 +452,192 @@ export const useBuildStore = defineStore('build', () => {
       })
     } finally {
       isBuilding.value = false
+      abortController = null
     }
   }
 
+  async function loadExistingFirmware(file: File) {
+    existingFirmware.value = {
+      name: file.name,
+      data: new Uint8Array(await file.arrayBuffer()),
+    }
+
+    // Hash releases in the background so the build can name the base without waiting
+    fetchKnownBaseFirmware().catch(() => {})
+  }
+
+  async function loadLocalBaseFirmware(file: File) {
+    await readLocalBase(file.name, async () => new Uint8Array(await file.arrayBuffer()), 'Cannot use base firmware')
+  }
+
+  // Helper to set the local base, ignoring results of superseded reads
+  async function readLocalBase(name: string, read: () => Promise<Uint8Array>, errorTitle: string) {
+    const check = ++baseCheck
+    isReadingBase.value = true
+
+    try {
+      const base = await checkLocalBaseFirmware(name, await read())
+      if (check === baseCheck) localBaseFirmware.value = base
+    } catch (error) {
+      if (check !== baseCheck) return
+      localBaseFirmware.value = null
+      toast.error(errorTitle, {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      })
+    } finally {
+      if (check === baseCheck) isReadingBase.value = false
+    }
+  }
+
+  // Helper to validate a local base against the selected layout and identify its release
+  async function checkLocalBaseFirmware(name: string, data: Uint8Array): Promise<LocalBaseFirmware> {
+    validateBaseFirmware(data, getFlashLayout(flashLayoutId.value))
+
+    let known: KnownBaseFirmware[] = []
+    let releasesChecked = true
+    try {
+      known = await fetchKnownBaseFirmware()
+    } catch {
+      releasesChecked = false
+    }
+
+    const identification = await identifyBaseFirmware(data, known)
+    return {
+      name,
+      data,
+      sha256: identification.sha256,
+      match: identification.match,
+      releasesChecked,
+    }
+  }
+
+  async function loadLocalPayload(file: File) {
+    isReadingPayload.value = true
+
+    try {
+      const data = new Uint8Array(await file.arrayBuffer())
+      const format = detectPayloadFormat(data)
+      if (!format) {
+        throw new Error(`${file.name} is not a DOL, ELF, ZIP or TAR.XZ file`)
+      }
+
+      const entries = await listPayloadArchive(data, format)
+      if (isPayloadArchive(format) && entries.length === 0) {
+        throw new Error(`${file.name} contains no files`)
+      }
+
+      localPayload.value = {
+        name: file.name,
+        data,
+        format,
+        entries,
+        entry: entries[0] ?? null,
+      }
+    } catch (error) {
+      localPayload.value = null
+      toast.error('Cannot use payload file', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      })
+    } finally {
+      isReadingPayload.value = false
+    }
+  }
+
+  function selectLocalPayloadEntry(entry: string) {
+    if (localPayload.value?.entries.includes(entry)) {
+      localPayload.value.entry = entry
+    }
+  }
+
+  async function splitFirmware(file: File) {
+    isSplitting.value = true
+    firmwareSplit.value = null
+
+    try {
+      const layout = getFlashLayout(flashLayoutId.value)
+      const split = splitUF2(new Uint8Array(await file.arrayBuffer()), { layout })
+
+      let payloadName: string | null = null
+      if (split.payloadBlocks > 0) {
+        try {
+          payloadName = decodePicoBootPayload(split.payload, layout).metadata.name ?? null
+        } catch {
+          // Not a PicoBoot payload, keep it unnamed
+        }
+      }
+
+      // Splitting is local; an unreachable GitHub only leaves the base unidentified
+      let known: KnownBaseFirmware[] = []
+      let releasesChecked = true
+      try {
+        known = await fetchKnownBaseFirmware()
+      } catch {
+        releasesChecked = false
+      }
+
+      const identification = await identifyBaseFirmware(split.base, known)
+      const stem = file.name.replace(/\.uf2$/i, '')
+
+      firmwareSplit.value = {
+        sourceName: file.name,
+        baseBlocks: split.baseBlocks,
+        payloadBlocks: split.payloadBlocks,
+        baseSha256: identification.sha256,
+        baseMatch: identification.match,
+        releasesChecked,
+        payloadName,
+        baseFilename: `${stem}_base.uf2`,
+        baseDownloadUrl: createDownloadURL(split.base),
+        payloadFilename: `${stem}_payload.uf2`,
+        payloadDownloadUrl: split.payloadBlocks > 0 ? createDownloadURL(split.payload) : null,
+      }
+    } catch (error) {
+      toast.error('Split failed', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      })
+    } finally {
+      isSplitting.value = false
+    }
+  }
+
+  // Returns false (and keeps the current sources) if the config is invalid
+  function setSourceConfig(config: SourceConfig) {
+    try {
+      validateSourceConfig(config)
+    } catch (error) {
+      toast.error('Invalid repository sources', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return false
+    }
+
+    sourceConfig.value = config
+    sourceConfigError.value = null
+    picobootVersion.value = 'latest'
+    payloadVersion.value = 'latest'
+
+    // Keep the URL shareable (other parameters and the hash are kept)
+    const query = updateSourceParams(new URLSearchParams(window.location.search), config).toString()
+    const { pathname, hash } = window.location
+    window.history.replaceState(null, '', `${pathname}${query ? `?${query}` : ''}${hash}`)
+    return true
+  }
+
+  function resetSourceConfig() {
+    setSourceConfig(getDefaultSourceConfig())
+  }
+
+  function cancelBuild() {
+    abortController?.abort()
+  }
+
   function reset() {
     isBuilding.value = false
     buildProgress.value = 0
     buildSteps.value = []
+    payloadReport.value = null
+    firmwareReport.value = null
+    payloadBudget.value = null
     firmwareData.value = null
     firmwareChecksum.value = ''
     firmwareDownloadUrl.value = ''
@@ -190,12 +646,28 @@ export const useBuildStore = defineStore('build', () => {
 
   return {
     // State
+    sourceConfig,
+    sourceConfigError,
     picobootVersion,
     platform,
+    flashLayoutId,
     payloadVersion,
+    buildMode,
+    existingFirmware,
+    baseSource,
+    localBaseFirmware,
+    isReadingBase,
+    payloadProviderId,
+    localPayload,
+    isReadingPayload,
     isBuilding,
     buildProgress,
     buildSteps,
+    payloadReport,
+    firmwareReport,
+    payloadBudget,
+    isSplitting,
+    firmwareSplit,
     firmwareData,
     firmwareChecksum,
     firmwareDownloadUrl,
@@ -203,9 +675,18 @@ export const useBuildStore = defineStore('build', () => {
 
     // Computed
     canBuild,
+    payloadSizeEstimate,
 
     // Actions
     buildFirmware,
+    loadExistingFirmware,
+    loadLocalBaseFirmware,
+    loadLocalPayload,
+    selectLocalPayloadEntry,
+    splitFirmware,
+    setSourceConfig,
+    resetSourceConfig,
+    cancelBuild,
     reset,
   }
 })
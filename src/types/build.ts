@@ -1,3 +1,6 @@
+import type { KnownBaseFirmware } from '@/lib/firmware/base-firmware'
+import type { LocalPayloadFormat } from '@/lib/payloads/local-payload'
+
 /**
  * Build step status during firmware generation
  */
@@ -17,3 +20,47 @@ export interface BuildStep {
  * Platform type for PicoBoot
  */
 export type Platform = 'RP2040' | 'RP2350'
+
+/**
+ * Where build mode gets the base firmware from
+ */
+export type BaseFirmwareSource = 'release' | 'file'
+
+/**
+ * Base firmware selected from disk
+ */
+export interface LocalBaseFirmware {
+  name: string
+  data: Uint8Array
+  sha256: string                       // Content hash (see hashBaseFirmware)
+  match: KnownBaseFirmware | null      // PicoBoot release the base matches
+  releasesChecked: boolean             // False if releases could not be downloaded
+}
+
+/**
+ * Merged firmware split into base and payload (triage)
+ */
+export interface FirmwareSplit {
+  sourceName: string
+  baseBlocks: number
+  payloadBlocks: number
+  baseSha256: string
+  baseMatch: KnownBaseFirmware | null  // PicoBoot release the base matches
+  releasesChecked: boolean             // False if releases could not be downloaded
+  payloadName: string | null           // IPLBOOT payload name, if decodable
+  baseFilename: string
+  baseDownloadUrl: string
+  payloadFilename: string
+  payloadDownloadUrl: string | null    // null when there is no payload
+}
+
+/**
+ * Payload file selected from disk
+ */
+export interface LocalPayload {
+  name: string
+  data: Uint8Array
+  format: LocalPayloadFormat
+  entries: string[]      // Files inside the archive (empty for DOL/ELF)
+  entry: string | null   // Archive file to use as the executable
+}
@@ -1,5 +1,10 @@
 import { describe, test, expect } from 'vitest';
-import { parseDOLHeader, extractDOLSections, validateDOL } from '@/lib/firmware/dol-parser';
+import {
+  parseDOLHeader,
+  extractDOLSections,
+  validateDOL,
+  buildLoadImage,
+} from '@/lib/firmware/dol-parser';
 import { scramble } from '@/lib/firmware/scrambler';
 import { wrapPayload } from '@/lib/firmware/payload-wrapper';
 import { encodeToUF2, MEMORY_LAYOUT } from '@/lib/firmware/uf2-encoder';
@@ -11,7 +16,7 @@ import { createValidDOL } from '../mocks/sample-dol';
  *
  * Tests the complete flow:
  * 1. DOL file → Parse & Extract
- * 2. Extract sections → Flatten to binary
+ * 2. Extract sections → Build memory load image
  * 3. Binary → Scramble (bootrom algorithm)
  * 4. Scrambled → Wrap (IPLBOOT + PICO)
  * 5. Wrapped → Encode to UF2
@@ -36,18 +41,10 @@ describe('Firmware Pipeline Integration', () => {
       expect(sections.textSections.length).toBeGreaterThan(0);
       expect(sections.totalSize).toBeGreaterThan(0);
 
-      // Step 4: Flatten sections to binary (simulate DOL → binary conversion)
-      // In real implementation, this combines all sections into single buffer
-      const payloadBinary = new Uint8Array(sections.totalSize);
-      let offset = 0;
-      for (const section of sections.textSections) {
-        payloadBinary.set(section.data, offset);
-        offset += section.data.byteLength;
-      }
-      for (const section of sections.dataSections) {
-        payloadBinary.set(section.data, offset);
-        offset += section.data.byteLength;
-      }
+      // Step 4: Lay out sections as the GameCube loads them
+      const loadImage = buildLoadImage(header, sections);
+      expect(loadImage.baseAddress).toBe(0x81300000);
+      const payloadBinary = loadImage.data;
 
       // Step 5: Scramble payload
       const scrambled = scramble(payloadBinary);
@@ -55,7 +52,7 @@ describe('Firmware Pipeline Integration', () => {
 
       // Step 6: Wrap in PicoBoot protocol
       const wrapped = wrapPayload(payloadBinary);
-      expect(wrapped.header.byteLength).toBe(12);
+      expect(wrapped.header.byteLength).toBe(32);
       expect(wrapped.payload.byteLength).toBeGreaterThan(scrambled.byteLength);
 
       // Verify IPLBOOT header
@@ -113,13 +110,7 @@ describe('Firmware Pipeline Integration', () => {
       const header = parseDOLHeader(dolFile);
       const sections = extractDOLSections(dolFile, header);
 
-      // Flatten to binary
-      const binary = new Uint8Array(sections.totalSize);
-      let offset = 0;
-      for (const section of sections.textSections) {
-        binary.set(section.data, offset);
-        offset += section.data.byteLength;
-      }
+      const binary = buildLoadImage(header, sections).data;
 
       // Process pipeline
       const wrapped = wrapPayload(binary);
@@ -151,12 +142,7 @@ describe('Firmware Pipeline Integration', () => {
       const sections = extractDOLSections(largeDOL, header);
 
       // Process through pipeline
-      const binary = new Uint8Array(sections.totalSize);
-      let offset = 0;
-      for (const section of [...sections.textSections, ...sections.dataSections]) {
-        binary.set(section.data, offset);
-        offset += section.data.byteLength;
-      }
+      const binary = buildLoadImage(header, sections).data;
 
       const wrapped = wrapPayload(binary);
       const payloadUF2 = encodeToUF2(wrapped.payload, {
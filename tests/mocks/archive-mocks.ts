@@ -205,3 +205,20 @@ export function createEmptyTar(): Uint8Array {
 export function createCorruptedTar(): Uint8Array {
   return new Uint8Array([0xff, 0xff, 0xff, 0xff]);
 }
+
+/**
+ * Creates a mock Swiss release asset (TAR.XZ with the Swiss directory layout)
+ *
+ * Contains swiss_r1788/README.txt and swiss_r1788/DOL/swiss_r1788.dol,
+ * compressed with the xz tool (CRC32 check).
+ */
+export function createMockSwissTarXz(): Uint8Array {
+  const base64 =
+    '/Td6WFoAAAFpIt42BMC0AYBQIQEcAAAAAAAAANGb4NTgJ/8ArF0AOZ3JVvwTyOeey5XOL+rnaxQr' +
+    'StBxsmVuJgVH+KtLcMWFEr+Egd48+vqLT3fMrFkFCq2D9gnZb9X3JlbequfNK8Hg8v2O9yNxkFJ1' +
+    'MuNsM/fWXe6mk8Wf2rTqnDDTe3+dEvq6/ngsvoQZQcF71qlhGXaqAhRHk9I2uuZxDA9T0A362H5D' +
+    '1rmR4R1+SH0xs+VHHJqb6oV+yvgO4i/+nl855mBiugdlPXzF+sfaAAAK5JewAAHMAYBQAAApu/oZ' +
+    'PjANiwIAAAAAAVla';
+
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
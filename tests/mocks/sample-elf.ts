@@ -0,0 +1,72 @@
+/**
+ * Mock ELF file structure for testing
+ * ELF32 big-endian PowerPC executable, as produced by devkitPPC
+ *
+ * Mirrors the gekkoboot layout used in sample-dol.ts:
+ * - Segment 0: text (R+X) at 0x81300000, 0x2580 bytes
+ * - Segment 1: data (R+W) at 0x81302580, 0xcb60 bytes + 0x7820 bytes BSS
+ */
+
+const ELF_HEADER_SIZE = 52
+const PROGRAM_HEADER_SIZE = 32
+
+export const TEXT_SIZE = 0x2580
+export const DATA_SIZE = 0xcb60
+export const BSS_SIZE = 0x7820
+
+// Create a complete valid ELF file
+export function createValidELF(entryPoint: number = 0x81300000): Uint8Array {
+  const phCount = 2
+  const textOffset = 0x100
+  const dataOffset = textOffset + TEXT_SIZE
+  const elf = new Uint8Array(dataOffset + DATA_SIZE)
+  const view = new DataView(elf.buffer)
+
+  // ELF identification
+  elf.set([0x7F, 0x45, 0x4C, 0x46], 0) // "\x7FELF"
+  elf[4] = 1 // ELFCLASS32
+  elf[5] = 2 // ELFDATA2MSB (big-endian)
+  elf[6] = 1 // EV_CURRENT
+
+  // ELF header (big-endian)
+  view.setUint16(0x10, 2, false) // ET_EXEC
+  view.setUint16(0x12, 20, false) // EM_PPC
+  view.setUint32(0x14, 1, false) // Version
+  view.setUint32(0x18, entryPoint, false) // Entry point
+  view.setUint32(0x1C, ELF_HEADER_SIZE, false) // Program header offset
+  view.setUint16(0x28, ELF_HEADER_SIZE, false) // Header size
+  view.setUint16(0x2A, PROGRAM_HEADER_SIZE, false) // Program header size
+  view.setUint16(0x2C, phCount, false) // Program header count
+
+  // Program headers
+  writeProgramHeader(view, 0, textOffset, 0x81300000, TEXT_SIZE, TEXT_SIZE, 0x5) // R+X
+  writeProgramHeader(view, 1, dataOffset, 0x81302580, DATA_SIZE, DATA_SIZE + BSS_SIZE, 0x6) // R+W
+
+  // Text: PowerPC NOPs (0x60000000), data: test pattern
+  for (let i = 0; i < TEXT_SIZE; i += 4) {
+    elf[textOffset + i] = 0x60
+  }
+  elf.fill(0xAA, dataOffset, dataOffset + DATA_SIZE)
+
+  return elf
+}
+
+function writeProgramHeader(
+  view: DataView,
+  index: number,
+  offset: number,
+  address: number,
+  fileSize: number,
+  memorySize: number,
+  flags: number
+): void {
+  const base = ELF_HEADER_SIZE + index * PROGRAM_HEADER_SIZE
+  view.setUint32(base + 0x00, 1, false) // PT_LOAD
+  view.setUint32(base + 0x04, offset, false)
+  view.setUint32(base + 0x08, address, false) // vaddr
+  view.setUint32(base + 0x0C, address, false) // paddr
+  view.setUint32(base + 0x10, fileSize, false)
+  view.setUint32(base + 0x14, memorySize, false)
+  view.setUint32(base + 0x18, flags, false)
+  view.setUint32(base + 0x1C, 0x20, false) // Alignment
+}
@@ -4,14 +4,16 @@
  * REQ-051: TAR extractor using modern-tar
  * Target coverage: >80%
  *
- * Note: These tests use uncompressed TAR for simplicity.
- * XZ decompression is tested in integration tests with real files.
+ * Note: Most tests use uncompressed TAR for simplicity. The TAR.XZ
+ * tests use a small archive compressed with the xz tool.
  */
 
 import { describe, test, expect } from 'vitest';
 import {
   listTarContents,
+  listTarXzContents,
   extractFromTarByName,
+  extractFromTarXz,
   TarExtractionError,
 } from '../../../../src/lib/archive/tar-extractor';
 import {
@@ -19,6 +21,7 @@ import {
   createMockTarWithDirectories,
   createEmptyTar,
   createCorruptedTar,
+  createMockSwissTarXz,
 } from '../../../mocks/archive-mocks';
 
 describe('TAR Extractor', () => {
@@ -94,6 +97,25 @@ describe('TAR Extractor', () => {
     });
   });
 
+  describe('TAR.XZ', () => {
+    test('lists files in a compressed archive', async () => {
+      const files = await listTarXzContents(createMockSwissTarXz());
+
+      expect(files).toEqual(['swiss_r1788/README.txt', 'swiss_r1788/DOL/swiss_r1788.dol']);
+    });
+
+    test('extracts file by pattern', async () => {
+      const result = await extractFromTarXz(createMockSwissTarXz(), /DOL\/swiss.*\.dol$/);
+
+      expect(new TextDecoder().decode(result)).toBe('MOCK_SWISS_TARXZ_DOL');
+    });
+
+    test('throws TarExtractionError for data that is not XZ', async () => {
+      await expect(extractFromTarXz(createCorruptedTar(), /\.dol$/))
+        .rejects.toThrow(TarExtractionError);
+    });
+  });
+
   describe('Error Handling', () => {
     test('TarExtractionError has correct name', () => {
       const error = new TarExtractionError('test error');
@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'vitest';
+import {
+  hashBaseFirmware,
+  identifyBaseFirmware,
+  validateBaseFirmware,
+  type KnownBaseFirmware,
+} from '@/lib/firmware/base-firmware';
+import { getFlashLayout } from '@/lib/firmware/flash-layout';
+import { encodeToUF2, createTextTag, MEMORY_LAYOUT, UF2_EXTENSION_TAG_TYPES } from '@/lib/firmware/uf2-encoder';
+import { mergeUF2, splitUF2 } from '@/lib/firmware/uf2-merger';
+
+describe('Base Firmware', () => {
+  // Helper: Create base firmware filled with a byte
+  function createBase(fill: number, platform: 'RP2040' | 'RP2350' = 'RP2040'): Uint8Array {
+    return encodeToUF2(new Uint8Array(2048).fill(fill), {
+      platform,
+      baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+    }).data;
+  }
+
+  function createPayload(): Uint8Array {
+    return encodeToUF2(new Uint8Array(1024).fill(0x55), {
+      platform: 'RP2040',
+      baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+    }).data;
+  }
+
+  describe('hashBaseFirmware', () => {
+    test('returns SHA-256 hex', async () => {
+      expect(await hashBaseFirmware(createBase(0x11))).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test('differs for different contents and families', async () => {
+      const hash = await hashBaseFirmware(createBase(0x11));
+
+      expect(await hashBaseFirmware(createBase(0x22))).not.toBe(hash);
+      expect(await hashBaseFirmware(createBase(0x11, 'RP2350'))).not.toBe(hash);
+    });
+
+    test('ignores block numbering and tags of merged firmware', async () => {
+      const base = createBase(0x11);
+      const merged = mergeUF2(base, createPayload(), {
+        tags: [createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'PicoBoot v1.0 + gekkoboot v2.0')],
+      });
+
+      expect(await hashBaseFirmware(splitUF2(merged.data).base)).toBe(await hashBaseFirmware(base));
+    });
+  });
+
+  describe('identifyBaseFirmware', () => {
+    test('matches a known release', async () => {
+      const known: KnownBaseFirmware[] = [
+        { version: 'v1.0', assetName: 'picoboot_pico.uf2', sha256: await hashBaseFirmware(createBase(0x11)) },
+        { version: 'v1.1', assetName: 'picoboot_pico.uf2', sha256: await hashBaseFirmware(createBase(0x22)) },
+      ];
+      const merged = mergeUF2(createBase(0x22), createPayload());
+
+      const result = await identifyBaseFirmware(splitUF2(merged.data).base, known);
+
+      expect(result.match).toBe(known[1]);
+      expect(result.sha256).toBe(known[1].sha256);
+    });
+
+    test('returns null match for unknown firmware', async () => {
+      const result = await identifyBaseFirmware(createBase(0x33), []);
+
+      expect(result.match).toBeNull();
+      expect(result.sha256).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('validateBaseFirmware', () => {
+    test('accepts base firmware in the base region', () => {
+      expect(() => validateBaseFirmware(createBase(0x11))).not.toThrow();
+      expect(() => validateBaseFirmware(createBase(0x11), getFlashLayout('pico'))).not.toThrow();
+    });
+
+    test('rejects invalid UF2 data', () => {
+      expect(() => validateBaseFirmware(new Uint8Array(512))).toThrow('Base firmware is not a valid UF2');
+    });
+
+    test('rejects firmware that already has a payload', () => {
+      const merged = mergeUF2(createBase(0x11), createPayload());
+
+      expect(() => validateBaseFirmware(merged.data)).toThrow('already contains a payload at 0x10080000');
+    });
+
+    test('rejects blocks outside the layout base region', () => {
+      const layout = { ...getFlashLayout('pico'), baseRegion: { start: MEMORY_LAYOUT.FLASH_BASE, size: 1024 } };
+
+      expect(() => validateBaseFirmware(createBase(0x11), layout))
+        .toThrow('does not fit Raspberry Pi Pico / Pico W (2 MB) base region');
+    });
+  });
+});
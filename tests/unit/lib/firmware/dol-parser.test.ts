@@ -1,5 +1,13 @@
 import { describe, test, expect } from 'vitest';
-import { parseDOLHeader, validateDOL, extractDOLSections, type DOLHeader } from '@/lib/firmware/dol-parser';
+import {
+  parseDOLHeader,
+  validateDOL,
+  extractDOLSections,
+  buildLoadImage,
+  serializeDOL,
+  inspectDOL,
+  type DOLHeader,
+} from '@/lib/firmware/dol-parser';
 import { createValidDOL } from '../../../mocks/sample-dol';
 
 describe('DOL Parser', () => {
@@ -161,10 +169,56 @@ describe('DOL Parser', () => {
       // Create overlapping sections
       header.textOffsets[1] = 0x100; // Same as section 0
       header.textSizes[1] = 0x100;
+      header.textAddresses[1] = 0x81320000; // Past BSS, only the file ranges overlap
 
       expect(() => validateDOL(header, mockDOL)).toThrow('Overlapping sections');
     });
 
+    test('rejects overlapping memory addresses', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+
+      // Data section loads over the end of text section
+      header.dataAddresses[0] = 0x81302000;
+
+      expect(() => validateDOL(header, mockDOL)).toThrow('Overlapping sections in memory: Text 0');
+    });
+
+    test('rejects BSS overlapping data section', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+
+      header.bssAddress = 0x8130f000;
+
+      expect(() => validateDOL(header, mockDOL)).toThrow('overlaps Data 0 [0x81302580 - 0x8130F0E0]');
+    });
+
+    test('accepts BSS directly after data section', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+
+      expect(header.bssAddress).toBe(header.dataAddresses[0] + header.dataSizes[0]);
+      expect(() => validateDOL(header, mockDOL)).not.toThrow();
+    });
+
+    test('rejects section outside MEM1', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+
+      header.dataAddresses[0] = 0x817FA000; // Ends past 0x81800000
+
+      expect(() => validateDOL(header, mockDOL)).toThrow(/^Data 0 .* is outside MEM1/);
+    });
+
+    test('rejects BSS outside MEM1', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+
+      header.bssAddress = 0x90000000; // MEM2 is Wii-only
+
+      expect(() => validateDOL(header, mockDOL)).toThrow(/^BSS .* is outside MEM1/);
+    });
+
     test('validates file size reasonable (< 5 MB)', () => {
       const mockDOL = createValidDOL();
       const header = parseDOLHeader(mockDOL);
@@ -236,4 +290,328 @@ describe('DOL Parser', () => {
       expect(sections.totalSize).toBe(expectedSize);
     });
   });
+
+  describe('buildLoadImage', () => {
+    test('places sections at their memory addresses', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const image = buildLoadImage(header, extractDOLSections(mockDOL, header));
+
+      expect(image.baseAddress).toBe(0x81300000);
+      expect(image.entryPoint).toBe(0x81300000);
+      expect(image.data.byteLength).toBe(0x2580 + 0xcb60);
+
+      // Text (NOPs) at offset 0, data (0xAA) right after it
+      expect(Array.from(image.data.slice(0, 4))).toEqual([0x60, 0x00, 0x00, 0x00]);
+      expect(image.data[0x2580]).toBe(0xAA);
+      expect(image.data[image.data.byteLength - 1]).toBe(0xAA);
+    });
+
+    test('zero-fills gaps between sections', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const sections = extractDOLSections(mockDOL, header);
+
+      // Move data section 0x100 bytes further in memory
+      sections.dataSections[0].address = 0x81302680;
+      const image = buildLoadImage(header, sections);
+
+      expect(image.data.byteLength).toBe(0x2680 + 0xcb60);
+      expect(image.data.slice(0x2580, 0x2680).every(b => b === 0)).toBe(true);
+      expect(image.data[0x2680]).toBe(0xAA);
+    });
+
+    test('orders image by address, not file order', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const sections = extractDOLSections(mockDOL, header);
+
+      // Data section below text section in memory
+      sections.dataSections[0].address = 0x81200000;
+      const image = buildLoadImage(header, sections);
+
+      expect(image.baseAddress).toBe(0x81200000);
+      expect(image.data[0]).toBe(0xAA);
+      expect(image.data[0x100000]).toBe(0x60);
+    });
+
+    test('returns section map including BSS', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const image = buildLoadImage(header, extractDOLSections(mockDOL, header));
+
+      expect(image.sections).toEqual([
+        { kind: 'text', index: 0, address: 0x81300000, size: 0x2580, imageOffset: 0 },
+        { kind: 'data', index: 0, address: 0x81302580, size: 0xcb60, imageOffset: 0x2580 },
+        { kind: 'bss', index: 0, address: 0x8130f0e0, size: 0x7820, imageOffset: 0xf0e0 },
+      ]);
+    });
+
+    test('excludes BSS from image by default', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const image = buildLoadImage(header, extractDOLSections(mockDOL, header));
+
+      expect(image.baseAddress + image.data.byteLength).toBe(0x8130f0e0);
+    });
+
+    test('extends image over zero-filled BSS when requested', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const image = buildLoadImage(header, extractDOLSections(mockDOL, header), {
+        includeBss: true,
+      });
+
+      expect(image.data.byteLength).toBe(0xf0e0 + 0x7820);
+      expect(image.data.slice(0xf0e0).every(b => b === 0)).toBe(true);
+    });
+
+    test('rejects DOL without sections', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+
+      expect(() => buildLoadImage(header, { textSections: [], dataSections: [], totalSize: 0 }))
+        .toThrow('no text or data sections');
+    });
+  });
+
+  describe('serializeDOL', () => {
+    test('round-trips parse → serialize → parse', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const serialized = serializeDOL(header, extractDOLSections(mockDOL, header));
+
+      const reparsed: DOLHeader = parseDOLHeader(serialized);
+      expect(reparsed).toEqual(header);
+    });
+
+    test('reproduces packed DOL byte-for-byte', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+
+      expect(serializeDOL(header, extractDOLSections(mockDOL, header))).toEqual(mockDOL);
+    });
+
+    test('produces a DOL that passes validation', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const serialized = serializeDOL(header, extractDOLSections(mockDOL, header));
+
+      expect(() => validateDOL(parseDOLHeader(serialized), serialized)).not.toThrow();
+    });
+
+    test('aligns section offsets to 32 bytes', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const sections = extractDOLSections(mockDOL, header);
+
+      // Shrink text and drop the data offset, so data is appended unaligned
+      sections.textSections[0].size = 0x2570;
+      sections.dataSections[0].offset = 0;
+      const reparsed = parseDOLHeader(serializeDOL(header, sections));
+
+      expect(reparsed.textOffsets[0]).toBe(0x100);
+      expect(reparsed.dataOffsets[0]).toBe(0x2680);
+    });
+
+    test('relocates sections by address', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const sections = extractDOLSections(mockDOL, header);
+
+      sections.dataSections[0].address = 0x81400000;
+      const serialized = serializeDOL(header, sections);
+      const reparsed = parseDOLHeader(serialized);
+
+      expect(reparsed.dataAddresses[0]).toBe(0x81400000);
+      expect(extractDOLSections(serialized, reparsed).dataSections[0].data)
+        .toEqual(sections.dataSections[0].data);
+    });
+
+    test('round-trips non-contiguous slots', () => {
+      // Text 0, Text 2 and Data 3 used, other slots empty
+      const dol = new Uint8Array(0x1C0);
+      const view = new DataView(dol.buffer);
+      view.setUint32(0x00, 0x100, false);
+      view.setUint32(0x08, 0x140, false);
+      view.setUint32(0x28, 0x180, false);
+      view.setUint32(0x48, 0x81300000, false);
+      view.setUint32(0x50, 0x81300040, false);
+      view.setUint32(0x70, 0x81300080, false);
+      view.setUint32(0x90, 0x40, false);
+      view.setUint32(0x98, 0x40, false);
+      view.setUint32(0xB8, 0x40, false);
+      view.setUint32(0xE0, 0x81300000, false);
+      dol.fill(0xAA, 0x100);
+
+      const header = parseDOLHeader(dol);
+      const serialized = serializeDOL(header, extractDOLSections(dol, header));
+
+      expect(parseDOLHeader(serialized)).toEqual(header);
+      expect(parseDOLHeader(serialized).textAddresses.slice(0, 3)).toEqual([0x81300000, 0, 0x81300040]);
+      expect(serialized).toEqual(dol);
+    });
+
+    test('appends sections whose offset is no longer valid', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const sections = extractDOLSections(mockDOL, header);
+
+      // Growing text 0 overlaps data 0, which keeps its offset
+      const grown = sections.textSections[0];
+      sections.textSections[0] = { ...grown, size: grown.size + 0x100, data: new Uint8Array(grown.size + 0x100) };
+      const reparsed = parseDOLHeader(serializeDOL(header, sections));
+
+      expect(reparsed.textOffsets[0]).toBe(header.textOffsets[0]);
+      expect(reparsed.dataOffsets[0]).toBeGreaterThanOrEqual(header.textOffsets[0] + grown.size + 0x100);
+      expect(reparsed.dataOffsets[0] % 32).toBe(0);
+    });
+
+    test('rejects two sections in one slot', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const sections = extractDOLSections(mockDOL, header);
+      sections.textSections = [sections.textSections[0], { ...sections.textSections[0] }];
+
+      expect(() => serializeDOL(header, sections)).toThrow('Text slot 0 is used by two sections');
+    });
+
+    test('rejects too many text sections', () => {
+      const mockDOL = createValidDOL();
+      const header = parseDOLHeader(mockDOL);
+      const sections = extractDOLSections(mockDOL, header);
+      sections.textSections = new Array(8).fill(sections.textSections[0]);
+
+      expect(() => serializeDOL(header, sections)).toThrow('Too many text sections');
+    });
+  });
+
+  describe('inspectDOL', () => {
+    // Helper: Create DOL with header modified in place
+    function createModifiedDOL(modify: (view: DataView) => void): Uint8Array {
+      const dol = createValidDOL();
+      modify(new DataView(dol.buffer, dol.byteOffset));
+      return dol;
+    }
+
+    test('reports valid DOL without findings', () => {
+      const report = inspectDOL(createValidDOL());
+
+      expect(report.valid).toBe(true);
+      expect(report.header?.entryPoint).toBe(0x81300000);
+      expect(report.findings).toEqual([]);
+      expect(report.errorCount).toBe(0);
+      expect(report.warningCount).toBe(0);
+    });
+
+    test('reports file too small without header', () => {
+      const report = inspectDOL(new Uint8Array(100));
+
+      expect(report.valid).toBe(false);
+      expect(report.header).toBeNull();
+      expect(report.findings[0].code).toBe('header-too-small');
+    });
+
+    test('reports all-zero header', () => {
+      const report = inspectDOL(new Uint8Array(256));
+
+      expect(report.header).toBeNull();
+      expect(report.findings[0].code).toBe('header-all-zeros');
+    });
+
+    test('collects multiple errors instead of stopping at the first', () => {
+      const dol = createModifiedDOL(view => {
+        view.setUint32(0xE0, 0x80003100, false); // Entry point
+        view.setUint32(0x1C, 0x00100000, false); // Data 0 offset beyond file
+      });
+      const report = inspectDOL(dol);
+
+      expect(report.valid).toBe(false);
+      expect(report.errorCount).toBe(2);
+      expect(report.findings.map(f => f.code)).toEqual([
+        'invalid-entry-point',
+        'section-out-of-bounds',
+      ]);
+      expect(report.findings[1].section).toEqual({ kind: 'data', index: 0 });
+    });
+
+    test('includes suggested fixes', () => {
+      const dol = createModifiedDOL(view => view.setUint32(0xE0, 0x80003100, false));
+      const finding = inspectDOL(dol).findings[0];
+
+      expect(finding.severity).toBe('error');
+      expect(finding.message).toContain('0x80003100');
+      expect(finding.suggestion).toContain('0x81300000');
+    });
+
+    test('reports overlapping memory addresses', () => {
+      const dol = createModifiedDOL(view => {
+        view.setUint32(0x64, 0x81302000, false); // Data 0 starts inside Text 0
+      });
+      const report = inspectDOL(dol);
+
+      expect(report.findings).toHaveLength(1);
+      expect(report.findings[0].code).toBe('address-overlap');
+      expect(report.findings[0].section).toEqual({ kind: 'data', index: 0 });
+    });
+
+    test('reports overlapping file offsets', () => {
+      const dol = createModifiedDOL(view => {
+        view.setUint32(0x1C, 0x00000200, false); // Data 0 inside Text 0 in file
+      });
+
+      expect(inspectDOL(dol).findings.map(f => f.code)).toContain('file-overlap');
+    });
+
+    test('reports BSS overlapping data', () => {
+      const dol = createModifiedDOL(view => {
+        view.setUint32(0xD8, 0x8130f000, false); // BSS starts inside Data 0
+      });
+      const report = inspectDOL(dol);
+
+      expect(report.valid).toBe(false);
+      expect(report.errorCount).toBe(1);
+      expect(report.findings[0]).toMatchObject({
+        severity: 'error',
+        code: 'bss-overlap',
+        section: { kind: 'bss', index: 0 },
+      });
+    });
+
+    test('reports sections outside MEM1', () => {
+      const dol = createModifiedDOL(view => {
+        view.setUint32(0x64, 0x817FA000, false); // Data 0 crosses 0x81800000
+      });
+      const report = inspectDOL(dol);
+
+      expect(report.findings.map(f => f.code)).toContain('outside-mem1');
+    });
+
+    test('reports sections below the load address', () => {
+      const dol = createModifiedDOL(view => {
+        view.setUint32(0x64, 0x81200000, false); // Data 0 below text 0
+      });
+      const report = inspectDOL(dol);
+
+      expect(report.valid).toBe(false);
+      expect(report.findings).toHaveLength(1);
+      expect(report.findings[0]).toMatchObject({
+        code: 'below-load-address',
+        section: { kind: 'data', index: 0 },
+      });
+    });
+
+    test('reports BSS outside MEM1', () => {
+      const dol = createModifiedDOL(view => {
+        view.setUint32(0xD8, 0x817FF000, false);
+      });
+      const report = inspectDOL(dol);
+
+      expect(report.findings).toHaveLength(1);
+      expect(report.findings[0]).toMatchObject({
+        code: 'outside-mem1',
+        section: { kind: 'bss', index: 0 },
+      });
+    });
+  });
 });
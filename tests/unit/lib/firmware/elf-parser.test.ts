@@ -0,0 +1,154 @@
+import { describe, test, expect } from 'vitest';
+import {
+  isELF,
+  parseELFHeader,
+  validateELF,
+  extractELFSections,
+  loadELF,
+} from '@/lib/firmware/elf-parser';
+import { buildLoadImage } from '@/lib/firmware/dol-parser';
+import { createValidELF, TEXT_SIZE, DATA_SIZE, BSS_SIZE } from '../../../mocks/sample-elf';
+import { createValidDOL } from '../../../mocks/sample-dol';
+
+describe('ELF Parser', () => {
+  describe('isELF', () => {
+    test('detects ELF magic', () => {
+      expect(isELF(createValidELF())).toBe(true);
+    });
+
+    test('does not detect DOL as ELF', () => {
+      expect(isELF(createValidDOL())).toBe(false);
+    });
+
+    test('handles input shorter than magic', () => {
+      expect(isELF(new Uint8Array([0x7F, 0x45]))).toBe(false);
+    });
+  });
+
+  describe('parseELFHeader', () => {
+    test('parses valid ELF header', () => {
+      const header = parseELFHeader(createValidELF());
+
+      expect(header.type).toBe(2);
+      expect(header.machine).toBe(20);
+      expect(header.entryPoint).toBe(0x81300000);
+      expect(header.programHeaderOffset).toBe(52);
+      expect(header.programHeaderSize).toBe(32);
+      expect(header.programHeaderCount).toBe(2);
+    });
+
+    test('rejects file smaller than 52 bytes', () => {
+      expect(() => parseELFHeader(new Uint8Array(51))).toThrow('ELF file too small');
+    });
+
+    test('rejects bad magic', () => {
+      const elf = createValidELF();
+      elf[0] = 0x00;
+
+      expect(() => parseELFHeader(elf)).toThrow('bad magic');
+    });
+
+    test('rejects 64-bit ELF', () => {
+      const elf = createValidELF();
+      elf[4] = 2;
+
+      expect(() => parseELFHeader(elf)).toThrow('Unsupported ELF class');
+    });
+
+    test('rejects little-endian ELF', () => {
+      const elf = createValidELF();
+      elf[5] = 1;
+
+      expect(() => parseELFHeader(elf)).toThrow('Unsupported ELF data encoding');
+    });
+  });
+
+  describe('validateELF', () => {
+    test('accepts valid PowerPC executable', () => {
+      const elf = createValidELF();
+      const header = parseELFHeader(elf);
+
+      expect(() => validateELF(header, elf)).not.toThrow();
+    });
+
+    test('rejects invalid entry point', () => {
+      const elf = createValidELF(0x80003100);
+      const header = parseELFHeader(elf);
+
+      expect(() => validateELF(header, elf)).toThrow('Invalid entry point: 0x80003100');
+    });
+
+    test('rejects non-PowerPC machine', () => {
+      const elf = createValidELF();
+      const header = parseELFHeader(elf);
+      header.machine = 40; // ARM
+
+      expect(() => validateELF(header, elf)).toThrow('Unsupported ELF machine');
+    });
+
+    test('rejects relocatable object', () => {
+      const elf = createValidELF();
+      const header = parseELFHeader(elf);
+      header.type = 1; // ET_REL
+
+      expect(() => validateELF(header, elf)).toThrow('Unsupported ELF type');
+    });
+
+    test('rejects program header table beyond file', () => {
+      const elf = createValidELF();
+      const header = parseELFHeader(elf);
+      header.programHeaderOffset = elf.byteLength;
+
+      expect(() => validateELF(header, elf)).toThrow('Program header table out of bounds');
+    });
+
+    test('rejects segment beyond file', () => {
+      const elf = createValidELF();
+      const view = new DataView(elf.buffer);
+      view.setUint32(52 + 32 + 0x10, 0x100000, false); // Segment 1 file size
+
+      const header = parseELFHeader(elf);
+
+      expect(() => validateELF(header, elf)).toThrow('Segment offset out of bounds');
+    });
+  });
+
+  describe('extractELFSections', () => {
+    test('splits segments into text and data sections', () => {
+      const elf = createValidELF();
+      const { sections } = extractELFSections(elf, parseELFHeader(elf));
+
+      expect(sections.textSections).toHaveLength(1);
+      expect(sections.dataSections).toHaveLength(1);
+      expect(sections.textSections[0].address).toBe(0x81300000);
+      expect(sections.textSections[0].size).toBe(TEXT_SIZE);
+      expect(sections.dataSections[0].address).toBe(0x81302580);
+      expect(sections.dataSections[0].data.every(b => b === 0xAA)).toBe(true);
+      expect(sections.totalSize).toBe(TEXT_SIZE + DATA_SIZE);
+    });
+
+    test('synthesizes DOL header with BSS range', () => {
+      const elf = createValidELF();
+      const { header } = extractELFSections(elf, parseELFHeader(elf));
+
+      expect(header.textAddresses).toEqual([0x81300000, 0, 0, 0, 0, 0, 0]);
+      expect(header.dataSizes[0]).toBe(DATA_SIZE);
+      expect(header.dataSizes).toHaveLength(11);
+      expect(header.bssAddress).toBe(0x81302580 + DATA_SIZE);
+      expect(header.bssSize).toBe(BSS_SIZE);
+      expect(header.entryPoint).toBe(0x81300000);
+    });
+  });
+
+  describe('loadELF', () => {
+    test('produces the same load image as the equivalent DOL', () => {
+      const elf = loadELF(createValidELF());
+      const image = buildLoadImage(elf.header, elf.sections);
+
+      expect(image.baseAddress).toBe(0x81300000);
+      expect(image.data.byteLength).toBe(TEXT_SIZE + DATA_SIZE);
+      expect(image.data[0]).toBe(0x60);
+      expect(image.data[TEXT_SIZE]).toBe(0xAA);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, test, expect, vi } from 'vitest';
+import {
+  FirmwareBuilder,
+  FirmwareBuildCancelledError,
+  handleWorkerRequest,
+  type WorkerRequest,
+} from '@/lib/firmware/firmware-builder';
+import { PayloadValidationError, type FirmwareBuildStage } from '@/lib/firmware/pipeline';
+import { encodeToUF2, MEMORY_LAYOUT } from '@/lib/firmware/uf2-encoder';
+import { getFlashLayout, PayloadTooLargeError } from '@/lib/firmware/flash-layout';
+import { createValidDOL } from '../../../mocks/sample-dol';
+
+/**
+ * In-process stand-in for the firmware worker
+ *
+ * Uses structuredClone with transfer lists so buffers are detached
+ * exactly like with a real Worker.
+ */
+class FakeWorker extends EventTarget {
+  terminate = vi.fn();
+
+  postMessage(message: WorkerRequest, transfer: Transferable[]): void {
+    const received = structuredClone(message, { transfer });
+
+    setTimeout(() => {
+      handleWorkerRequest(received, (response, responseTransfer) => {
+        const data = structuredClone(response, { transfer: responseTransfer });
+        this.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    }, 0);
+  }
+}
+
+describe('FirmwareBuilder', () => {
+  function createRequest() {
+    return {
+      executable: createValidDOL(),
+      baseFirmware: encodeToUF2(new Uint8Array(4 * 1024), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+      }).data,
+      platform: 'RP2040' as const,
+    };
+  }
+
+  function createWorkerBuilder() {
+    const workers: FakeWorker[] = [];
+    const builder = new FirmwareBuilder({
+      useWorker: true,
+      createWorker: () => {
+        const worker = new FakeWorker();
+        workers.push(worker);
+        return worker as unknown as Worker;
+      },
+    });
+    return { builder, workers };
+  }
+
+  describe('synchronous fallback', () => {
+    test('builds firmware without a worker', async () => {
+      const builder = new FirmwareBuilder({ useWorker: false });
+      const result = await builder.build(createRequest());
+
+      expect(result.totalBlocks).toBe(result.baseBlocks + result.payloadBlocks);
+      expect(result.report?.valid).toBe(true);
+    });
+
+    test('reports progress stages', async () => {
+      const builder = new FirmwareBuilder({ useWorker: false });
+      const stages: FirmwareBuildStage[] = [];
+
+      await builder.build(createRequest(), { onProgress: stage => stages.push(stage) });
+
+      expect(stages).toEqual(['process', 'encode', 'merge', 'verify']);
+    });
+
+    test('rejects when signal is already aborted', async () => {
+      const builder = new FirmwareBuilder({ useWorker: false });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(builder.build(createRequest(), { signal: controller.signal }))
+        .rejects.toBeInstanceOf(FirmwareBuildCancelledError);
+    });
+
+    test('cancels between stages', async () => {
+      const builder = new FirmwareBuilder({ useWorker: false });
+      const controller = new AbortController();
+
+      const build = builder.build(createRequest(), {
+        signal: controller.signal,
+        onProgress: stage => {
+          if (stage === 'process') controller.abort();
+        },
+      });
+
+      await expect(build).rejects.toBeInstanceOf(FirmwareBuildCancelledError);
+    });
+  });
+
+  describe('worker mode', () => {
+    test('builds firmware in worker with same output as fallback', async () => {
+      const { builder } = createWorkerBuilder();
+      const expected = await new FirmwareBuilder({ useWorker: false }).build(createRequest());
+
+      const result = await builder.build(createRequest());
+
+      expect(result.data).toEqual(expected.data);
+      expect(result.totalBlocks).toBe(expected.totalBlocks);
+    });
+
+    test('transfers input buffers to the worker', async () => {
+      const { builder } = createWorkerBuilder();
+      const request = createRequest();
+
+      const build = builder.build(request);
+      expect(request.executable.byteLength).toBe(0);
+      expect(request.baseFirmware.byteLength).toBe(0);
+
+      await build;
+    });
+
+    test('copies input views that do not own their buffer', async () => {
+      const { builder } = createWorkerBuilder();
+      const request = createRequest();
+      const padded = new Uint8Array(request.executable.byteLength + 16);
+      padded.set(request.executable, 16);
+      const view = padded.subarray(16);
+
+      await builder.build({ ...request, executable: view });
+
+      expect(view.byteLength).toBe(padded.byteLength - 16);
+    });
+
+    test('forwards progress messages', async () => {
+      const { builder } = createWorkerBuilder();
+      const stages: FirmwareBuildStage[] = [];
+
+      await builder.build(createRequest(), { onProgress: stage => stages.push(stage) });
+
+      expect(stages).toEqual(['process', 'encode', 'merge', 'verify']);
+    });
+
+    test('rebuilds PayloadValidationError with report', async () => {
+      const { builder } = createWorkerBuilder();
+      const request = createRequest();
+      new DataView(request.executable.buffer).setUint32(0xE0, 0x80003100, false);
+
+      const error = await builder.build(request).catch(e => e);
+
+      expect(error).toBeInstanceOf(PayloadValidationError);
+      expect(error.report.findings[0].code).toBe('invalid-entry-point');
+    });
+
+    test('rebuilds PayloadTooLargeError with budget', async () => {
+      const { builder } = createWorkerBuilder();
+      const layout = { ...getFlashLayout('pico'), maxPayloadSize: 256 };
+
+      const error = await builder.build({ ...createRequest(), layout }).catch(e => e);
+
+      expect(error).toBeInstanceOf(PayloadTooLargeError);
+      expect(error.budget.limit).toBe(256);
+      expect(error.message).toContain('bytes over the');
+    });
+
+    test('terminates worker on cancel and creates a new one next time', async () => {
+      const { builder, workers } = createWorkerBuilder();
+      const controller = new AbortController();
+
+      const build = builder.build(createRequest(), { signal: controller.signal });
+      controller.abort();
+
+      await expect(build).rejects.toBeInstanceOf(FirmwareBuildCancelledError);
+      expect(workers[0].terminate).toHaveBeenCalled();
+
+      await builder.build(createRequest());
+      expect(workers).toHaveLength(2);
+    });
+
+    test('reuses worker across builds', async () => {
+      const { builder, workers } = createWorkerBuilder();
+
+      await builder.build(createRequest());
+      await builder.build(createRequest());
+
+      expect(workers).toHaveLength(1);
+    });
+  });
+});
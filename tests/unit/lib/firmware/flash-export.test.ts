@@ -0,0 +1,129 @@
+import { describe, test, expect } from 'vitest';
+import { blocksToBin, blocksToIntelHex, exportFirmware } from '@/lib/firmware/flash-export';
+import { encodeRangesToUF2, encodeToUF2, MEMORY_LAYOUT, UF2_FAMILY_IDS } from '@/lib/firmware/uf2-encoder';
+import { mergeUF2, parseUF2Blocks, serializeBlocks } from '@/lib/firmware/uf2-merger';
+
+describe('Flash Export', () => {
+  // Helper: Parse blocks of data encoded at an address
+  function encodeBlocks(data: Uint8Array, baseAddress: number) {
+    return parseUF2Blocks(encodeToUF2(data, { platform: 'RP2040', baseAddress }).data);
+  }
+
+  describe('blocksToBin', () => {
+    test('produces an image starting at FLASH_BASE', () => {
+      const data = new Uint8Array(600).map((_, i) => i & 0xFF);
+      const image = blocksToBin(encodeBlocks(data, MEMORY_LAYOUT.FLASH_BASE));
+
+      // Last 256-byte page is zero-padded by the encoder
+      expect(image.byteLength).toBe(768);
+      expect(image.slice(0, 600)).toEqual(data);
+    });
+
+    test('fills gaps with 0xFF', () => {
+      const uf2 = encodeRangesToUF2([
+        { address: MEMORY_LAYOUT.FLASH_BASE, data: new Uint8Array(256).fill(0x11) },
+        { address: MEMORY_LAYOUT.FLASH_BASE + 0x400, data: new Uint8Array(256).fill(0x22) },
+      ], { platform: 'RP2040', baseAddress: 0 });
+
+      const image = blocksToBin(parseUF2Blocks(uf2.data));
+
+      expect(image.byteLength).toBe(0x500);
+      expect(image.slice(0x100, 0x400).every(b => b === 0xFF)).toBe(true);
+      expect(image[0x400]).toBe(0x22);
+    });
+
+    test('pads from FLASH_BASE to the first block', () => {
+      const image = blocksToBin(encodeBlocks(new Uint8Array(256).fill(0x33), MEMORY_LAYOUT.PAYLOAD_BASE));
+
+      expect(image.byteLength).toBe(0x80000 + 256);
+      expect(image[0]).toBe(0xFF);
+      expect(image[0x80000]).toBe(0x33);
+    });
+
+    test('lays out merged firmware at flash addresses', () => {
+      const base = encodeToUF2(new Uint8Array(256).fill(0x11), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+      });
+      const payload = encodeToUF2(new Uint8Array(256).fill(0x22), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      const image = blocksToBin(parseUF2Blocks(mergeUF2(base.data, payload.data).data));
+
+      expect(image[0]).toBe(0x11);
+      expect(image[MEMORY_LAYOUT.PAYLOAD_BASE - MEMORY_LAYOUT.FLASH_BASE]).toBe(0x22);
+    });
+
+    test('skips special blocks', () => {
+      const blocks = encodeBlocks(new Uint8Array(256), MEMORY_LAYOUT.FLASH_BASE);
+      blocks.push({ ...blocks[0], targetAddr: 0x10FFFF00, familyID: UF2_FAMILY_IDS.ABSOLUTE });
+
+      expect(blocksToBin(blocks).byteLength).toBe(256);
+    });
+
+    test('rejects blocks before the image start', () => {
+      expect(() => blocksToBin(encodeBlocks(new Uint8Array(256), 0x20000000 - 256), {
+        baseAddress: 0x20000000,
+      })).toThrow('is before image start');
+    });
+
+    test('rejects overlapping blocks', () => {
+      const blocks = encodeBlocks(new Uint8Array(512), MEMORY_LAYOUT.FLASH_BASE);
+      blocks.push({ ...blocks[0], familyID: UF2_FAMILY_IDS.RP2350 });
+
+      expect(() => blocksToBin(blocks)).toThrow('Overlapping blocks at 0x10000000');
+    });
+  });
+
+  describe('blocksToIntelHex', () => {
+    test('emits extended address, data and EOF records', () => {
+      const data = new Uint8Array(256).map((_, i) => i);
+      const lines = blocksToIntelHex(encodeBlocks(data, MEMORY_LAYOUT.FLASH_BASE)).trimEnd().split('\r\n');
+
+      expect(lines[0]).toBe(':020000041000EA');
+      expect(lines[1]).toBe(':10000000000102030405060708090A0B0C0D0E0F78');
+      expect(lines).toHaveLength(1 + 16 + 1);
+      expect(lines[lines.length - 1]).toBe(':00000001FF');
+    });
+
+    test('starts a new segment at 64 KB boundaries', () => {
+      const hex = blocksToIntelHex(encodeBlocks(new Uint8Array(512), 0x1000FF00));
+
+      expect(hex).toContain(':020000041000EA');
+      expect(hex).toContain(':020000041001E9');
+      expect(hex).toContain(':10FFF000');
+      expect(hex).toContain(':10000000');
+    });
+
+    test('records have valid checksums', () => {
+      const hex = blocksToIntelHex(encodeBlocks(new Uint8Array(300).fill(0xA5), MEMORY_LAYOUT.FLASH_BASE));
+
+      for (const line of hex.trimEnd().split('\r\n')) {
+        const bytes = line.slice(1).match(/../g)!.map(b => parseInt(b, 16));
+        expect(bytes.reduce((sum, b) => sum + b, 0) & 0xFF).toBe(0);
+      }
+    });
+  });
+
+  describe('exportFirmware', () => {
+    const uf2 = serializeBlocks(encodeBlocks(new Uint8Array(256).fill(0x44), MEMORY_LAYOUT.FLASH_BASE));
+
+    test('returns UF2 unchanged', () => {
+      expect(exportFirmware(uf2, 'uf2')).toEqual({
+        data: uf2,
+        mimeType: 'application/octet-stream',
+        extension: 'uf2',
+      });
+    });
+
+    test('converts to bin and hex', () => {
+      expect(exportFirmware(uf2, 'bin').data).toEqual(new Uint8Array(256).fill(0x44));
+
+      const hex = exportFirmware(uf2, 'hex');
+      expect(hex.mimeType).toBe('text/plain');
+      expect(new TextDecoder().decode(hex.data)).toMatch(/^:020000041000EA\r\n/);
+    });
+  });
+});
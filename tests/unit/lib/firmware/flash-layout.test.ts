@@ -0,0 +1,166 @@
+import { describe, test, expect } from 'vitest';
+import {
+  BUILTIN_FLASH_LAYOUTS,
+  getFlashLayout,
+  getDefaultFlashLayout,
+  listFlashLayouts,
+  registerFlashLayout,
+  validateFlashLayout,
+  getPayloadBudget,
+  checkPayloadBudget,
+  PayloadTooLargeError,
+  type FlashLayout,
+} from '@/lib/firmware/flash-layout';
+import { MEMORY_LAYOUT } from '@/lib/firmware/uf2-encoder';
+
+describe('Flash Layout', () => {
+  // Helper: Create a custom layout
+  function createLayout(fields: Partial<FlashLayout> = {}): FlashLayout {
+    return {
+      id: 'custom',
+      name: 'Custom board',
+      platform: 'RP2040',
+      flashBase: 0x10000000,
+      flashSize: 8 * 1024 * 1024,
+      baseRegion: { start: 0x10000000, size: 0x80000 },
+      payloadBase: 0x10080000,
+      maxPayloadSize: 8 * 1024 * 1024 - 0x80000,
+      ...fields,
+    };
+  }
+
+  describe('built-in layouts', () => {
+    test('are all valid', () => {
+      for (const layout of BUILTIN_FLASH_LAYOUTS) {
+        expect(() => validateFlashLayout(layout)).not.toThrow();
+      }
+    });
+
+    test('pico layout matches MEMORY_LAYOUT', () => {
+      const pico = getFlashLayout('pico');
+
+      expect(pico.flashBase).toBe(MEMORY_LAYOUT.FLASH_BASE);
+      expect(pico.baseRegion.size).toBe(MEMORY_LAYOUT.FLASH_SIZE);
+      expect(pico.payloadBase).toBe(MEMORY_LAYOUT.PAYLOAD_BASE);
+      expect(pico.maxPayloadSize).toBe(MEMORY_LAYOUT.PAYLOAD_SIZE);
+    });
+
+    test('pico2 layout has 4 MB flash', () => {
+      const pico2 = getFlashLayout('pico2');
+
+      expect(pico2.platform).toBe('RP2350');
+      expect(pico2.flashSize).toBe(4 * 1024 * 1024);
+      expect(pico2.maxPayloadSize).toBe(4 * 1024 * 1024 - 0x80000);
+    });
+  });
+
+  describe('getDefaultFlashLayout', () => {
+    test('returns the default layout per platform', () => {
+      expect(getDefaultFlashLayout('RP2040').id).toBe('pico');
+      expect(getDefaultFlashLayout('RP2350').id).toBe('pico2');
+    });
+  });
+
+  describe('getFlashLayout', () => {
+    test('throws for unknown layouts', () => {
+      expect(() => getFlashLayout('missing')).toThrow('Unknown flash layout: missing');
+    });
+  });
+
+  describe('listFlashLayouts', () => {
+    test('filters by platform', () => {
+      const layouts = listFlashLayouts('RP2350');
+
+      expect(layouts.length).toBeGreaterThan(0);
+      expect(layouts.every(l => l.platform === 'RP2350')).toBe(true);
+    });
+
+    test('lists all layouts without a platform', () => {
+      expect(listFlashLayouts().length).toBeGreaterThanOrEqual(BUILTIN_FLASH_LAYOUTS.length);
+    });
+  });
+
+  describe('registerFlashLayout', () => {
+    test('adds a custom layout', () => {
+      const layout = createLayout({ id: 'test-8mb' });
+      registerFlashLayout(layout);
+
+      expect(getFlashLayout('test-8mb')).toBe(layout);
+      expect(listFlashLayouts('RP2040')).toContain(layout);
+    });
+
+    test('rejects invalid layouts', () => {
+      expect(() => registerFlashLayout(createLayout({ id: 'bad', flashSize: 0x80000 })))
+        .toThrow('payload window');
+      expect(() => getFlashLayout('bad')).toThrow();
+    });
+  });
+
+  describe('validateFlashLayout', () => {
+    test('rejects base region outside flash', () => {
+      expect(() => validateFlashLayout(createLayout({
+        baseRegion: { start: 0x0F000000, size: 0x80000 },
+      }))).toThrow('base region is outside flash');
+    });
+
+    test('rejects payload window outside flash', () => {
+      expect(() => validateFlashLayout(createLayout({
+        maxPayloadSize: 16 * 1024 * 1024,
+      }))).toThrow('is outside flash');
+    });
+
+    test('rejects payload window overlapping base region', () => {
+      expect(() => validateFlashLayout(createLayout({
+        payloadBase: 0x10040000,
+      }))).toThrow('overlaps base region');
+    });
+
+    test('rejects unaligned payload base', () => {
+      expect(() => validateFlashLayout(createLayout({
+        payloadBase: 0x10080010,
+        maxPayloadSize: 0x100000,
+      }))).toThrow('not 256-byte aligned');
+    });
+  });
+
+  describe('payload budget', () => {
+    test('reports remaining space', () => {
+      const budget = getPayloadBudget(0x1000, getFlashLayout('pico'));
+
+      expect(budget).toEqual({
+        layoutName: 'Raspberry Pi Pico / Pico W (2 MB)',
+        size: 0x1000,
+        limit: MEMORY_LAYOUT.PAYLOAD_SIZE,
+        remaining: MEMORY_LAYOUT.PAYLOAD_SIZE - 0x1000,
+      });
+    });
+
+    test('accepts a payload that fills the window exactly', () => {
+      const layout = getFlashLayout('pico');
+
+      expect(checkPayloadBudget(layout.maxPayloadSize, layout).remaining).toBe(0);
+    });
+
+    test('throws with the number of bytes over the limit', () => {
+      const layout = getFlashLayout('pico');
+
+      try {
+        checkPayloadBudget(layout.maxPayloadSize + 100, layout);
+        expect.fail('Expected PayloadTooLargeError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PayloadTooLargeError);
+        expect((error as PayloadTooLargeError).budget.remaining).toBe(-100);
+        expect((error as PayloadTooLargeError).message).toBe(
+          'Payload is 100 bytes over the Raspberry Pi Pico / Pico W (2 MB) limit (1572964 of 1572864 bytes)'
+        );
+      }
+    });
+
+    test('larger boards have more room', () => {
+      const size = 3 * 1024 * 1024;
+
+      expect(() => checkPayloadBudget(size, getFlashLayout('pico'))).toThrow(PayloadTooLargeError);
+      expect(checkPayloadBudget(size, getFlashLayout('pico2')).remaining).toBeGreaterThan(0);
+    });
+  });
+});
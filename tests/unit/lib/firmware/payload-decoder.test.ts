@@ -0,0 +1,188 @@
+import { describe, test, expect } from 'vitest';
+import { decodePicoBootPayload } from '@/lib/firmware/payload-decoder';
+import {
+  parseDOLHeader,
+  extractDOLSections,
+  buildLoadImage,
+  validateDOL,
+} from '@/lib/firmware/dol-parser';
+import { wrapPayload, serializeWrappedPayload } from '@/lib/firmware/payload-wrapper';
+import { encodeToUF2, MEMORY_LAYOUT, UF2_FAMILY_IDS } from '@/lib/firmware/uf2-encoder';
+import { mergeUF2 } from '@/lib/firmware/uf2-merger';
+import type { FlashLayout } from '@/lib/firmware/flash-layout';
+import { createValidDOL } from '../../../mocks/sample-dol';
+
+describe('Payload Decoder', () => {
+  // Helper: Build merged firmware from a memory image
+  function buildFirmware(image: Uint8Array): Uint8Array {
+    const payloadUF2 = encodeToUF2(serializeWrappedPayload(wrapPayload(image)), {
+      platform: 'RP2040',
+      baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+    });
+    const baseUF2 = encodeToUF2(new Uint8Array(16 * 1024).fill(0x11), {
+      platform: 'RP2040',
+      baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+    });
+    return mergeUF2(baseUF2.data, payloadUF2.data).data;
+  }
+
+  function createLoadImage(): Uint8Array {
+    const dol = createValidDOL();
+    const header = parseDOLHeader(dol);
+    return buildLoadImage(header, extractDOLSections(dol, header)).data;
+  }
+
+  describe('decodePicoBootPayload', () => {
+    test('reads the payload at the layout payload base', () => {
+      const layout: FlashLayout = {
+        id: 'test',
+        name: 'Test board',
+        platform: 'RP2040',
+        flashBase: 0x10000000,
+        flashSize: 0x400000,
+        baseRegion: { start: 0x10000000, size: 0x100000 },
+        payloadBase: 0x10100000,
+        maxPayloadSize: 0x300000,
+      };
+      const payload = encodeToUF2(serializeWrappedPayload(wrapPayload(new Uint8Array(64).fill(0x42))), {
+        platform: 'RP2040',
+        baseAddress: layout.payloadBase,
+      });
+
+      expect(decodePicoBootPayload(payload.data, layout).image).toEqual(new Uint8Array(64).fill(0x42));
+      expect(() => decodePicoBootPayload(payload.data)).toThrow('No payload found at 0x10080000');
+    });
+
+    test('recovers memory image from built firmware', () => {
+      const image = createLoadImage();
+      const decoded = decodePicoBootPayload(buildFirmware(image));
+
+      expect(decoded.image).toEqual(image);
+    });
+
+    test('returns IPLBOOT header and size', () => {
+      const image = createLoadImage();
+      const decoded = decodePicoBootPayload(buildFirmware(image));
+
+      expect(decoded.header.byteLength).toBe(32);
+      expect(new TextDecoder().decode(decoded.header.slice(0, 8))).toBe('IPLBOOT ');
+      expect(decoded.imageSize).toBe(32 + image.byteLength + 4);
+    });
+
+    test('returns header metadata', () => {
+      const flash = serializeWrappedPayload(
+        wrapPayload(new Uint8Array(64), { name: 'gekkoboot', timestamp: 1700000000 })
+      );
+      const payload = encodeToUF2(flash, {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+      const { metadata } = decodePicoBootPayload(payload.data);
+
+      expect(metadata.name).toBe('gekkoboot');
+      expect(metadata.timestamp).toBe(1700000000);
+      expect(metadata.crc32).toBeDefined();
+    });
+
+    test('trims alignment padding from image', () => {
+      const image = new Uint8Array(101).fill(0x42);
+      const decoded = decodePicoBootPayload(buildFirmware(image));
+
+      expect(decoded.metadata.padding).toBe(3);
+      expect(decoded.image).toEqual(image);
+    });
+
+    test('keeps alignment padding of legacy headers', () => {
+      const flash = serializeWrappedPayload(wrapPayload(new Uint8Array(101).fill(0x42)));
+      flash.fill(0, 0x0C, 0x20);
+      const payload = encodeToUF2(flash, {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+      const decoded = decodePicoBootPayload(payload.data);
+
+      expect(decoded.image.byteLength).toBe(104);
+      expect(decoded.image.slice(0, 101)).toEqual(new Uint8Array(101).fill(0x42));
+    });
+
+    test('skips special blocks after the payload', () => {
+      const image = new Uint8Array(64).fill(0x42);
+      const payload = encodeToUF2(serializeWrappedPayload(wrapPayload(image)), {
+        platform: 'RP2350',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      }).data;
+      const absolute = encodeToUF2(new Uint8Array(256), {
+        familyId: UF2_FAMILY_IDS.ABSOLUTE,
+        baseAddress: 0x10FFFF00,
+      }).data;
+      const firmware = new Uint8Array([...absolute, ...payload]);
+
+      expect(decodePicoBootPayload(firmware).image).toEqual(image);
+    });
+
+    test('rebuilds a valid single-section DOL', () => {
+      const image = createLoadImage();
+      const { dol } = decodePicoBootPayload(buildFirmware(image));
+      const header = parseDOLHeader(dol);
+
+      expect(() => validateDOL(header, dol)).not.toThrow();
+      expect(header.entryPoint).toBe(0x81300000);
+      expect(extractDOLSections(dol, header).textSections[0].data).toEqual(image);
+    });
+
+    test('rejects firmware without payload', () => {
+      const baseOnly = encodeToUF2(new Uint8Array(1024), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+      });
+
+      expect(() => decodePicoBootPayload(baseOnly.data)).toThrow('No payload found');
+    });
+
+    test('rejects payload without IPLBOOT header', () => {
+      const payload = encodeToUF2(new Uint8Array(1024), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      expect(() => decodePicoBootPayload(payload.data)).toThrow('No IPLBOOT header');
+    });
+
+    test('rejects missing PICO signature', () => {
+      const flash = serializeWrappedPayload(wrapPayload(new Uint8Array(100)));
+      flash[flash.byteLength - 1] = 0x00;
+      const payload = encodeToUF2(flash, {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      expect(() => decodePicoBootPayload(payload.data)).toThrow('Invalid PICO signature');
+    });
+
+    test('rejects corrupted scrambled data', () => {
+      const flash = serializeWrappedPayload(wrapPayload(new Uint8Array(100)));
+      flash[40] ^= 0xFF;
+      const payload = encodeToUF2(flash, {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      expect(() => decodePicoBootPayload(payload.data)).toThrow('CRC32 mismatch');
+    });
+
+    test('rejects gaps in payload region', () => {
+      const flash = serializeWrappedPayload(wrapPayload(new Uint8Array(1024)));
+      const payload = encodeToUF2(flash, {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      // Drop second block
+      const withGap = new Uint8Array(payload.data.byteLength - 512);
+      withGap.set(payload.data.subarray(0, 512), 0);
+      withGap.set(payload.data.subarray(1024), 512);
+
+      expect(() => decodePicoBootPayload(withGap)).toThrow('Gap in payload region');
+    });
+  });
+});
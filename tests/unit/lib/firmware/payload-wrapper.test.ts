@@ -4,8 +4,13 @@ import {
   createIPLBOOTHeader,
   validateWrappedPayload,
   extractPayloadSize,
+  serializeWrappedPayload,
+  parseIPLBOOTHeader,
+  parseWrappedPayload,
+  calculateWrappedSize,
   type WrappedPayload,
 } from '@/lib/firmware/payload-wrapper';
+import { calculateCRC32 } from '@/lib/utils/crc32';
 
 describe('Payload Wrapper - PicoBoot Protocol', () => {
   describe('wrapPayload', () => {
@@ -15,7 +20,7 @@ describe('Payload Wrapper - PicoBoot Protocol', () => {
 
       // Should have header
       expect(result.header).toBeInstanceOf(Uint8Array);
-      expect(result.header.byteLength).toBe(12);
+      expect(result.header.byteLength).toBe(32);
 
       // Should have payload with PICO signature
       expect(result.payload).toBeInstanceOf(Uint8Array);
@@ -66,7 +71,7 @@ describe('Payload Wrapper - PicoBoot Protocol', () => {
 
       // Empty scrambled (0) + align to 4 (0) + PICO (4) = 4 bytes
       expect(result.payload.byteLength).toBe(4);
-      expect(result.header.byteLength).toBe(12);
+      expect(result.header.byteLength).toBe(32);
     });
 
     test('handles large input (1 MB)', () => {
@@ -77,6 +82,23 @@ describe('Payload Wrapper - PicoBoot Protocol', () => {
       expect(result.payload.byteLength).toBe(1024 * 1024 + 4);
     });
 
+    test('stores CRC32 of scrambled data in header', () => {
+      const result = wrapPayload(new Uint8Array(101));
+      const header = parseIPLBOOTHeader(result.header);
+
+      expect(header.crc32).toBe(calculateCRC32(result.payload.slice(0, -4)));
+      expect(header.timestamp).toBeUndefined();
+      expect(header.name).toBeUndefined();
+    });
+
+    test('stores name and timestamp when given', () => {
+      const result = wrapPayload(new Uint8Array(16), { name: 'gekkoboot', timestamp: 1700000000 });
+      const header = parseIPLBOOTHeader(result.header);
+
+      expect(header.name).toBe('gekkoboot');
+      expect(header.timestamp).toBe(1700000000);
+    });
+
     test('wrapping is deterministic', () => {
       const input = new Uint8Array([0x01, 0x02, 0x03, 0x04]);
       const result1 = wrapPayload(input);
@@ -107,9 +129,41 @@ describe('Payload Wrapper - PicoBoot Protocol', () => {
       expect(readSize).toBe(size);
     });
 
-    test('header is exactly 12 bytes', () => {
+    test('header is exactly 32 bytes', () => {
       const header = createIPLBOOTHeader(1000);
-      expect(header.byteLength).toBe(12);
+      expect(header.byteLength).toBe(32);
+    });
+
+    test('writes version 1 with no metadata flags by default', () => {
+      const header = createIPLBOOTHeader(1000);
+
+      expect(header[0x0C]).toBe(1);
+      expect(header[0x0D]).toBe(0);
+      expect(header.slice(0x0E).every(b => b === 0)).toBe(true);
+    });
+
+    test('stores CRC32, timestamp and name big-endian', () => {
+      const header = createIPLBOOTHeader(1000, {
+        crc32: 0xDEADBEEF,
+        timestamp: 0x65000000,
+        name: 'gekkoboot',
+      });
+      const view = new DataView(header.buffer, header.byteOffset);
+
+      expect(header[0x0D]).toBe(0x07);
+      expect(view.getUint32(0x0E, false)).toBe(0xDEADBEEF);
+      expect(view.getUint32(0x12, false)).toBe(0x65000000);
+      expect(new TextDecoder().decode(header.slice(0x16, 0x1F))).toBe('gekkoboot');
+      expect(header[0x1F]).toBe(0);
+    });
+
+    test('truncates name to 10 bytes', () => {
+      const header = createIPLBOOTHeader(1000, { name: 'swiss-gc-v0.6' });
+      expect(parseIPLBOOTHeader(header).name).toBe('swiss-gc-v');
+    });
+
+    test('rejects non-ASCII name', () => {
+      expect(() => createIPLBOOTHeader(1000, { name: 'zażółć' })).toThrow('must be ASCII');
     });
 
     test('handles size = 0', () => {
@@ -172,6 +226,23 @@ describe('Payload Wrapper - PicoBoot Protocol', () => {
       expect(() => validateWrappedPayload(result)).toThrow('Invalid PICO signature');
     });
 
+    test('rejects CRC32 mismatch', () => {
+      const result = wrapPayload(new Uint8Array(100));
+
+      // Corrupt scrambled data
+      result.payload[0] ^= 0xFF;
+
+      expect(() => validateWrappedPayload(result)).toThrow('CRC32 mismatch');
+    });
+
+    test('accepts legacy header without metadata', () => {
+      const result = wrapPayload(new Uint8Array(100));
+      result.header.fill(0, 0x0C);
+      result.payload[0] ^= 0xFF;
+
+      expect(() => validateWrappedPayload(result)).not.toThrow();
+    });
+
     test('rejects total size mismatch', () => {
       const input = new Uint8Array(100);
       const result = wrapPayload(input);
@@ -183,6 +254,147 @@ describe('Payload Wrapper - PicoBoot Protocol', () => {
     });
   });
 
+  describe('parseIPLBOOTHeader', () => {
+    test('round-trips metadata', () => {
+      const header = createIPLBOOTHeader(4096, { crc32: 0x12345678, timestamp: 42, name: 'swiss' });
+
+      expect(parseIPLBOOTHeader(header)).toEqual({
+        size: 4096,
+        version: 1,
+        crc32: 0x12345678,
+        timestamp: 42,
+        name: 'swiss',
+      });
+    });
+
+    test('round-trips the padding count', () => {
+      const header = createIPLBOOTHeader(4096, { padding: 3 });
+
+      expect(header[0x0D]).toBe(0x38);
+      expect(parseIPLBOOTHeader(header)).toEqual({ size: 4096, version: 1, padding: 3 });
+      expect(() => createIPLBOOTHeader(4096, { padding: 4 })).toThrow('Invalid payload padding: 4');
+    });
+
+    test('parses legacy zero-padded header', () => {
+      const header = createIPLBOOTHeader(4096);
+      header.fill(0, 0x0C);
+
+      expect(parseIPLBOOTHeader(header)).toEqual({ size: 4096, version: 0 });
+    });
+
+    test('rejects invalid magic', () => {
+      const header = createIPLBOOTHeader(4096);
+      header[0] = 0x00;
+
+      expect(() => parseIPLBOOTHeader(header)).toThrow('Invalid IPLBOOT header magic');
+    });
+
+    test('rejects unknown version', () => {
+      const header = createIPLBOOTHeader(4096);
+      header[0x0C] = 7;
+
+      expect(() => parseIPLBOOTHeader(header)).toThrow('Unsupported IPLBOOT header version: 7');
+    });
+
+    test('rejects header shorter than 32 bytes', () => {
+      expect(() => parseIPLBOOTHeader(new Uint8Array(12))).toThrow('Header too small');
+    });
+  });
+
+  describe('parseWrappedPayload', () => {
+    test('round-trips serialized payload', () => {
+      const wrapped = wrapPayload(new Uint8Array(101), { name: 'gekkoboot' });
+      const parsed = parseWrappedPayload(serializeWrappedPayload(wrapped));
+
+      expect(parsed.header).toEqual(wrapped.header);
+      expect(parsed.payload).toEqual(wrapped.payload);
+      expect(parsed.totalSize).toBe(wrapped.totalSize);
+    });
+
+    test('returns views into the image', () => {
+      const image = serializeWrappedPayload(wrapPayload(new Uint8Array(64)));
+      const parsed = parseWrappedPayload(image);
+
+      expect(parsed.header.buffer).toBe(image.buffer);
+      expect(parsed.payload.buffer).toBe(image.buffer);
+      expect(parsed.payload.byteOffset).toBe(32);
+    });
+
+    test('ignores bytes past IPLBOOT size', () => {
+      const image = serializeWrappedPayload(wrapPayload(new Uint8Array(64)));
+      const padded = new Uint8Array(256).fill(0xFF);
+      padded.set(image);
+
+      const parsed = parseWrappedPayload(padded);
+      expect(parsed.totalSize).toBe(image.byteLength);
+      expect(parsed.payload.byteLength).toBe(image.byteLength - 32);
+    });
+
+    test('rejects image smaller than header + signature', () => {
+      expect(() => parseWrappedPayload(new Uint8Array(35))).toThrow('IPLBOOT image too small');
+    });
+
+    test('rejects invalid magic', () => {
+      const image = serializeWrappedPayload(wrapPayload(new Uint8Array(64)));
+      image[0] = 0x00;
+
+      expect(() => parseWrappedPayload(image)).toThrow('Invalid IPLBOOT header magic');
+    });
+
+    test('rejects size larger than image', () => {
+      const image = serializeWrappedPayload(wrapPayload(new Uint8Array(64)));
+
+      expect(() => parseWrappedPayload(image.slice(0, -4))).toThrow('Invalid IPLBOOT size');
+    });
+
+    test('rejects unaligned size', () => {
+      const image = serializeWrappedPayload(wrapPayload(new Uint8Array(64)));
+      new DataView(image.buffer).setUint32(8, image.byteLength - 2, false);
+
+      expect(() => parseWrappedPayload(image)).toThrow('not 4-byte aligned');
+    });
+
+    test('rejects missing PICO signature', () => {
+      const image = serializeWrappedPayload(wrapPayload(new Uint8Array(64)));
+      image[image.byteLength - 1] = 0x00;
+
+      expect(() => parseWrappedPayload(image)).toThrow('Invalid PICO signature');
+    });
+
+    test('rejects CRC32 mismatch', () => {
+      const image = serializeWrappedPayload(wrapPayload(new Uint8Array(64)));
+      image[40] ^= 0xFF;
+
+      expect(() => parseWrappedPayload(image)).toThrow('CRC32 mismatch');
+    });
+  });
+
+  describe('serializeWrappedPayload', () => {
+    test('places 32-byte header before payload', () => {
+      const wrapped = wrapPayload(new Uint8Array(100));
+      const image = serializeWrappedPayload(wrapped);
+
+      expect(image.slice(0, 32)).toEqual(wrapped.header);
+      expect(image.slice(32)).toEqual(wrapped.payload);
+    });
+
+    test('image length matches IPLBOOT size field', () => {
+      const wrapped = wrapPayload(new Uint8Array(101));
+      const image = serializeWrappedPayload(wrapped);
+
+      expect(image.byteLength).toBe(extractPayloadSize(wrapped.header));
+    });
+  });
+
+  describe('calculateWrappedSize', () => {
+    test('matches serialized image length', () => {
+      for (const size of [0, 1, 100, 101, 102, 103, 4096]) {
+        const image = serializeWrappedPayload(wrapPayload(new Uint8Array(size)));
+        expect(calculateWrappedSize(size)).toBe(image.byteLength);
+      }
+    });
+  });
+
   describe('extractPayloadSize', () => {
     test('extracts size from valid header', () => {
       const size = 12345;
@@ -228,7 +440,7 @@ describe('Payload Wrapper - PicoBoot Protocol', () => {
       const result = wrapPayload(payload);
 
       // Verify structure
-      expect(result.header.byteLength).toBe(12);
+      expect(result.header.byteLength).toBe(32);
       // 256 scrambled + align (already 4-aligned) + PICO (4) = 260
       expect(result.payload.byteLength).toBe(260);
 
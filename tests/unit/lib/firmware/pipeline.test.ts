@@ -0,0 +1,304 @@
+import { describe, test, expect } from 'vitest';
+import {
+  runFirmwarePipeline,
+  PayloadValidationError,
+  type FirmwareBuildStage,
+} from '@/lib/firmware/pipeline';
+import {
+  encodeToUF2,
+  createTextTag,
+  MEMORY_LAYOUT,
+  UF2_EXTENSION_TAG_TYPES,
+  UF2_FAMILY_IDS,
+} from '@/lib/firmware/uf2-encoder';
+import { parseUF2Blocks } from '@/lib/firmware/uf2-merger';
+import { decodePicoBootPayload } from '@/lib/firmware/payload-decoder';
+import { calculateWrappedSize } from '@/lib/firmware/payload-wrapper';
+import { getFlashLayout, PayloadTooLargeError } from '@/lib/firmware/flash-layout';
+import { parseDOLHeader, extractDOLSections, buildLoadImage } from '@/lib/firmware/dol-parser';
+import { createValidDOL } from '../../../mocks/sample-dol';
+import { createValidELF } from '../../../mocks/sample-elf';
+
+describe('Firmware Pipeline', () => {
+  function createBaseFirmware(platform: 'RP2040' | 'RP2350' = 'RP2040'): Uint8Array {
+    return encodeToUF2(new Uint8Array(8 * 1024), {
+      platform,
+      baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+    }).data;
+  }
+
+  describe('runFirmwarePipeline', () => {
+    test('builds merged firmware from DOL', () => {
+      const result = runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      });
+
+      expect(result.baseBlocks).toBe(32);
+      expect(result.totalBlocks).toBe(result.baseBlocks + result.payloadBlocks);
+      expect(result.data.byteLength).toBe(result.totalBlocks * 512);
+      expect(result.report?.valid).toBe(true);
+    });
+
+    test('payload decodes back to the DOL load image', () => {
+      const dol = createValidDOL();
+      const header = parseDOLHeader(dol);
+      const image = buildLoadImage(header, extractDOLSections(dol, header)).data;
+
+      const result = runFirmwarePipeline({
+        executable: dol,
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      });
+
+      expect(decodePicoBootPayload(result.data).image).toEqual(image);
+    });
+
+    test('tags merged firmware with version string', () => {
+      const result = runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+        versionTag: 'PicoBoot v1.0 + gekkoboot v2.0',
+      });
+
+      expect(parseUF2Blocks(result.data)[0].tags).toEqual([
+        createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'PicoBoot v1.0 + gekkoboot v2.0'),
+      ]);
+    });
+
+    test('shortens a version tag with a long file name', () => {
+      const versionTag = `PicoBoot v1.0 + ${'my-very-long-payload-build-name-'.repeat(8)}.zip:swiss.dol`;
+
+      const result = runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+        versionTag,
+      });
+
+      const [tag] = parseUF2Blocks(result.data)[0].tags ?? [];
+      const text = new TextDecoder().decode(tag.data);
+      expect(text.endsWith('…')).toBe(true);
+      expect(versionTag.startsWith(text.slice(0, -1))).toBe(true);
+      expect(text.length).toBeGreaterThan(100);
+    });
+
+    test('builds firmware from ELF with an inspection report', () => {
+      const result = runFirmwarePipeline({
+        executable: createValidELF(),
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      });
+
+      expect(result.report.valid).toBe(true);
+      expect(result.report.findings).toEqual([]);
+      expect(result.payloadBlocks).toBeGreaterThan(0);
+    });
+
+    test('rejects ELF with segments overlapping in memory', () => {
+      const elf = createValidELF();
+      new DataView(elf.buffer).setUint32(52 + 32 + 0x08, 0x81302000, false); // Segment 1 vaddr inside text
+
+      try {
+        runFirmwarePipeline({ executable: elf, baseFirmware: createBaseFirmware(), platform: 'RP2040' });
+        expect.fail('Expected PayloadValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PayloadValidationError);
+        expect((error as PayloadValidationError).report.findings.map(f => f.code)).toContain('address-overlap');
+      }
+    });
+
+    test('rejects ELF with segments outside MEM1', () => {
+      const elf = createValidELF();
+      new DataView(elf.buffer).setUint32(52 + 32 + 0x08, 0x817FA000, false); // Segment 1 crosses 0x81800000
+
+      expect(() => runFirmwarePipeline({
+        executable: elf,
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      })).toThrow(/Payload has \d+ problem\(s\): Data 0 .* is outside MEM1/);
+    });
+
+    test('uses platform family ID for payload blocks', () => {
+      const result = runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: createBaseFirmware('RP2350'),
+        platform: 'RP2350',
+      });
+
+      const payloadBlocks = parseUF2Blocks(result.data)
+        .filter(b => b.targetAddr >= MEMORY_LAYOUT.PAYLOAD_BASE);
+      payloadBlocks.forEach(block => {
+        expect(block.familyID).toBe(0xE48BFF59);
+      });
+    });
+
+    test('merges into an RP2350 RISC-V base with its family', () => {
+      const base = encodeToUF2(new Uint8Array(8 * 1024), {
+        familyId: UF2_FAMILY_IDS.RP2350_RISCV,
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+      }).data;
+
+      const result = runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: base,
+        platform: 'RP2350',
+      });
+
+      const families = new Set(parseUF2Blocks(result.data).map(b => b.familyID));
+      expect([...families]).toEqual([UF2_FAMILY_IDS.RP2350_RISCV]);
+      expect(result.payloadBlocks).toBeGreaterThan(0);
+    });
+
+    test('rejects a base of another chip', () => {
+      const base = encodeToUF2(new Uint8Array(8 * 1024), {
+        familyId: UF2_FAMILY_IDS.RP2350,
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+      }).data;
+
+      expect(() => runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: base,
+        platform: 'RP2040',
+      })).toThrow('Base firmware family (RP2350 (0xe48bff59)) does not match RP2040 (0xe48bff56)');
+    });
+
+    test('reports stages in order', () => {
+      const stages: FirmwareBuildStage[] = [];
+
+      runFirmwarePipeline(
+        {
+          executable: createValidDOL(),
+          baseFirmware: createBaseFirmware(),
+          platform: 'RP2040',
+        },
+        (stage) => stages.push(stage)
+      );
+
+      expect(stages).toEqual(['process', 'encode', 'merge', 'verify']);
+    });
+
+    test('returns verification report of merged firmware', () => {
+      const result = runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      });
+
+      expect(result.uf2Report.valid).toBe(true);
+      expect(result.uf2Report.blockCount).toBe(result.totalBlocks);
+      expect(result.uf2Report.ranges.map(r => r.start)).toEqual([
+        MEMORY_LAYOUT.FLASH_BASE,
+        MEMORY_LAYOUT.PAYLOAD_BASE,
+      ]);
+    });
+
+    test('reports payload budget of the layout', () => {
+      const dol = createValidDOL();
+      const header = parseDOLHeader(dol);
+      const image = buildLoadImage(header, extractDOLSections(dol, header)).data;
+
+      const result = runFirmwarePipeline({
+        executable: dol,
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      });
+
+      expect(result.budget.size).toBe(calculateWrappedSize(image.byteLength));
+      expect(result.budget.limit).toBe(MEMORY_LAYOUT.PAYLOAD_SIZE);
+      expect(result.budget.remaining).toBe(MEMORY_LAYOUT.PAYLOAD_SIZE - result.budget.size);
+    });
+
+    test('fails before encoding when payload exceeds the layout', () => {
+      const stages: FirmwareBuildStage[] = [];
+      const layout = { ...getFlashLayout('pico'), maxPayloadSize: 256 };
+
+      expect(() => runFirmwarePipeline(
+        {
+          executable: createValidDOL(),
+          baseFirmware: createBaseFirmware(),
+          platform: 'RP2040',
+          layout,
+        },
+        (stage) => stages.push(stage)
+      )).toThrow(PayloadTooLargeError);
+      expect(stages).toEqual(['process']);
+    });
+
+    test('replaces the payload of built firmware in update mode', () => {
+      const built = runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      });
+
+      const updated = runFirmwarePipeline({
+        executable: createValidELF(),
+        baseFirmware: built.data,
+        platform: 'RP2040',
+        mode: 'update',
+      });
+      const rebuilt = runFirmwarePipeline({
+        executable: createValidELF(),
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      });
+
+      expect(updated.baseBlocks).toBe(32);
+      expect(updated.data).toEqual(rebuilt.data);
+    });
+
+    test('rejects base firmware with duplicate blocks', () => {
+      const base = createBaseFirmware();
+      const duplicated = new Uint8Array(base.byteLength + 512);
+      duplicated.set(base);
+      duplicated.set(base.slice(0, 512), base.byteLength);
+
+      expect(() => runFirmwarePipeline({
+        executable: createValidDOL(),
+        baseFirmware: duplicated,
+        platform: 'RP2040',
+      })).toThrow('Base firmware is not a valid UF2');
+    });
+
+    test('rejects DOL with sections below the load address', () => {
+      const dol = createValidDOL();
+      new DataView(dol.buffer).setUint32(0x64, 0x81200000, false); // Data 0
+
+      try {
+        runFirmwarePipeline({ executable: dol, baseFirmware: createBaseFirmware(), platform: 'RP2040' });
+        expect.fail('Expected PayloadValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PayloadValidationError);
+        expect((error as PayloadValidationError).report.findings[0].code).toBe('below-load-address');
+      }
+    });
+
+    test('rejects ELF with segments below the load address', () => {
+      const elf = createValidELF();
+      new DataView(elf.buffer).setUint32(52 + 32 + 0x08, 0x81200000, false); // Segment 1 vaddr
+
+      expect(() => runFirmwarePipeline({
+        executable: elf,
+        baseFirmware: createBaseFirmware(),
+        platform: 'RP2040',
+      })).toThrow('Data 0 [0x81200000 - 0x8120CB60] is below the load address 0x81300000');
+    });
+
+    test('throws PayloadValidationError with report for invalid DOL', () => {
+      const dol = createValidDOL();
+      new DataView(dol.buffer).setUint32(0xE0, 0x80003100, false);
+
+      try {
+        runFirmwarePipeline({ executable: dol, baseFirmware: createBaseFirmware(), platform: 'RP2040' });
+        expect.fail('Expected PayloadValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(PayloadValidationError);
+        expect((error as PayloadValidationError).report.findings[0].code).toBe('invalid-entry-point');
+        expect((error as PayloadValidationError).message).toContain('Invalid entry point');
+      }
+    });
+  });
+});
@@ -1,5 +1,95 @@
 import { describe, test, expect } from 'vitest';
-import { scramble, validateDeterminism } from '@/lib/firmware/scrambler';
+import {
+  scramble,
+  descramble,
+  createScrambleStream,
+  validateDeterminism,
+} from '@/lib/firmware/scrambler';
+
+/**
+ * Reference implementation: original bit-by-bit port of process_ipl.py
+ * (prepends 0x720 zero bytes and scrambles the whole buffer)
+ */
+function referenceScramble(data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(0x720 + data.byteLength);
+  result.set(data, 0x720);
+
+  let acc = 0;
+  let nacc = 0;
+  let t = 0x2953;
+  let u = 0xD9C2;
+  let v = 0x3FF1;
+  let x = 1;
+  let it = 0;
+
+  while (it < result.length) {
+    const t0 = t & 1;
+    const t1 = (t >> 1) & 1;
+    const u0 = u & 1;
+    const u1 = (u >> 1) & 1;
+    const v0 = v & 1;
+
+    x ^= t1 ^ v0;
+    x ^= u0 | u1;
+    x ^= (t0 ^ u1 ^ v0) & (t0 ^ u0);
+
+    if (t0 === u0) {
+      v >>= 1;
+      if (v0) v ^= 0xB3D0;
+    }
+    if (t0 === 0) {
+      u >>= 1;
+      if (u0) u ^= 0xFB10;
+    }
+    t >>= 1;
+    if (t0) t ^= 0xA740;
+
+    nacc = (nacc + 1) % 256;
+    acc = (acc * 2 + x) % 256;
+
+    if (nacc === 8) {
+      result[it] ^= acc;
+      nacc = 0;
+      it += 1;
+    }
+  }
+
+  return result.slice(0x720);
+}
+
+// Helper: Index of first differing byte, or -1 (toEqual is slow on large arrays)
+function firstMismatch(a: Uint8Array, b: Uint8Array): number {
+  if (a.byteLength !== b.byteLength) return Math.min(a.byteLength, b.byteLength);
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return -1;
+}
+
+// Helper: Run data through the streaming scrambler in fixed-size chunks
+async function scrambleInChunks(data: Uint8Array, chunkSize: number): Promise<Uint8Array> {
+  const input = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < data.byteLength; i += chunkSize) {
+        controller.enqueue(data.slice(i, i + chunkSize));
+      }
+      controller.close();
+    },
+  });
+
+  const result = new Uint8Array(data.byteLength);
+  let offset = 0;
+  const reader = input.pipeThrough(createScrambleStream()).getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    result.set(value, offset);
+    offset += value.byteLength;
+  }
+
+  return result;
+}
 
 describe('Bootrom Scrambler - Core Algorithm', () => {
   describe('scramble', () => {
@@ -85,6 +175,96 @@ describe('Bootrom Scrambler - Core Algorithm', () => {
     });
   });
 
+  describe('descramble', () => {
+    test('recovers original data', () => {
+      const input = new Uint8Array(1000);
+      for (let i = 0; i < input.length; i++) {
+        input[i] = (i * 7) & 0xFF;
+      }
+
+      expect(descramble(scramble(input))).toEqual(input);
+    });
+
+    test('matches scramble output (XOR keystream)', () => {
+      const input = new Uint8Array(64).fill(0x5A);
+
+      expect(descramble(input)).toEqual(scramble(input));
+    });
+  });
+
+  describe('Parity with reference implementation', () => {
+    test('matches reference output for various sizes', () => {
+      const sizes = [0, 1, 3, 4, 5, 255, 1024, 4097];
+
+      for (const size of sizes) {
+        const input = new Uint8Array(size);
+        for (let i = 0; i < size; i++) {
+          input[i] = (i * 31 + 7) & 0xFF;
+        }
+
+        expect(scramble(input)).toEqual(referenceScramble(input));
+      }
+    });
+
+    test('matches reference output for 1 MB payload', () => {
+      const input = new Uint8Array(1024 * 1024);
+      for (let i = 0; i < input.length; i++) {
+        input[i] = i & 0xFF;
+      }
+
+      expect(firstMismatch(scramble(input), referenceScramble(input))).toBe(-1);
+    });
+
+    test('does not modify the input', () => {
+      const input = new Uint8Array(64).fill(0x33);
+      scramble(input);
+
+      expect(input.every(b => b === 0x33)).toBe(true);
+    });
+
+    test('handles input views with unaligned byte offset', () => {
+      const backing = new Uint8Array(1001);
+      for (let i = 0; i < backing.length; i++) {
+        backing[i] = i & 0xFF;
+      }
+      const view = backing.subarray(1);
+
+      expect(scramble(view)).toEqual(referenceScramble(view));
+    });
+
+    test('cached keystream is faster than reference for repeated builds', () => {
+      const input = new Uint8Array(1024 * 1024);
+      scramble(input); // Warm up keystream cache
+
+      const cachedStart = performance.now();
+      scramble(input);
+      const cachedDuration = performance.now() - cachedStart;
+
+      const referenceStart = performance.now();
+      referenceScramble(input);
+      const referenceDuration = performance.now() - referenceStart;
+
+      expect(cachedDuration).toBeLessThan(referenceDuration);
+    });
+  });
+
+  describe('createScrambleStream', () => {
+    test('matches scramble() for chunked input', async () => {
+      const input = new Uint8Array(10000);
+      for (let i = 0; i < input.length; i++) {
+        input[i] = (i * 13) & 0xFF;
+      }
+
+      expect(await scrambleInChunks(input, 4096)).toEqual(scramble(input));
+    });
+
+    test('handles chunks not aligned to 4 bytes', async () => {
+      const input = new Uint8Array(1000).fill(0xC3);
+
+      expect(await scrambleInChunks(input, 7)).toEqual(referenceScramble(input));
+    });
+  });
+
   describe('validateDeterminism', () => {
     test('confirms deterministic scrambling for small input', () => {
       const input = new Uint8Array([0x01, 0x02, 0x03]);
@@ -1,15 +1,28 @@
 import { describe, test, expect } from 'vitest';
 import {
   encodeToUF2,
+  encodeRangesToUF2,
   getFamilyId,
   validateUF2Block,
   validateUF2Data,
   extractFamilyId,
   countBlocks,
   UF2_FAMILY_IDS,
+  UF2_FLAGS,
+  UF2_EXTENSION_TAG_TYPES,
   MEMORY_LAYOUT,
+  createTextTag,
+  createPageSizeTag,
+  createSHA2Tag,
+  describeExtensionTag,
+  encodeExtensionTags,
+  parseExtensionTags,
+  encodeChecksumTrailer,
+  parseChecksumTrailer,
   type Platform,
 } from '@/lib/firmware/uf2-encoder';
+import { getFlashLayout } from '@/lib/firmware/flash-layout';
+import { calculateMD5 } from '@/lib/utils/md5';
 
 describe('UF2 Encoder', () => {
   describe('encodeToUF2', () => {
@@ -120,6 +133,332 @@ describe('UF2 Encoder', () => {
     });
   });
 
+  describe('block fields', () => {
+    // Helper: Read a 32-bit field of block `index`
+    function field(data: Uint8Array, index: number, offset: number): number {
+      return new DataView(data.buffer, data.byteOffset).getUint32(index * 512 + offset, true);
+    }
+
+    test('writes sequential block numbers and addresses', () => {
+      const result = encodeToUF2(new Uint8Array(600), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      expect(result.blockCount).toBe(3);
+      for (let i = 0; i < 3; i++) {
+        expect(field(result.data, i, 12)).toBe(MEMORY_LAYOUT.PAYLOAD_BASE + i * 256);
+        expect(field(result.data, i, 16)).toBe(256);
+        expect(field(result.data, i, 20)).toBe(i);
+        expect(field(result.data, i, 24)).toBe(3);
+      }
+    });
+
+    test('sets family ID present flag', () => {
+      const result = encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2350',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      expect(field(result.data, 0, 8)).toBe(UF2_FLAGS.FAMILY_ID_PRESENT);
+    });
+
+    test('accepts arbitrary family ID', () => {
+      const result = encodeToUF2(new Uint8Array(256), {
+        familyId: 0xE48BFF5A,
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      expect(result.familyId).toBe(0xE48BFF5A);
+      expect(extractFamilyId(result.data.slice(0, 512))).toBe(0xE48BFF5A);
+    });
+
+    test('family ID overrides platform', () => {
+      const result = encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        familyId: 0x12345678,
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+
+      expect(result.familyId).toBe(0x12345678);
+    });
+
+    test('requires platform or family ID', () => {
+      expect(() => encodeToUF2(new Uint8Array(256), {
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      })).toThrow('requires a platform or family ID');
+    });
+
+    test('sets not-main-flash flag', () => {
+      const result = encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+        notMainFlash: true,
+      });
+
+      expect(field(result.data, 0, 8)).toBe(UF2_FLAGS.FAMILY_ID_PRESENT | UF2_FLAGS.NOT_MAIN_FLASH);
+    });
+
+    test('pads last block with fill byte', () => {
+      const result = encodeToUF2(new Uint8Array(100).fill(0x42), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+        fillByte: 0xFF,
+      });
+
+      expect(result.data.slice(32, 132).every(b => b === 0x42)).toBe(true);
+      expect(result.data.slice(132, 288).every(b => b === 0xFF)).toBe(true);
+      expect(result.data.slice(288, 508).every(b => b === 0x00)).toBe(true);
+    });
+
+    test('encodes 476-byte payloads', () => {
+      const data = new Uint8Array(1000);
+      data.forEach((_, i) => { data[i] = i & 0xFF; });
+      const result = encodeToUF2(data, {
+        platform: 'RP2040',
+        baseAddress: 0x20000000,
+        payloadSize: 476,
+      });
+
+      expect(result.blockCount).toBe(3);
+      expect(field(result.data, 1, 12)).toBe(0x20000000 + 476);
+      expect(field(result.data, 1, 16)).toBe(476);
+      expect(result.data.slice(512 + 32, 512 + 508)).toEqual(data.slice(476, 952));
+    });
+
+    test('rejects unsupported payload size', () => {
+      expect(() => encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+        payloadSize: 300 as 256,
+      })).toThrow('Invalid UF2 payload size');
+    });
+  });
+
+  describe('MD5 checksum', () => {
+    test('writes address, length and MD5 trailer', () => {
+      const data = new Uint8Array(256).fill(0x61);
+      const result = encodeToUF2(data, {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+        md5: true,
+      });
+      const view = new DataView(result.data.buffer);
+
+      expect(view.getUint32(8, true)).toBe(UF2_FLAGS.FAMILY_ID_PRESENT | UF2_FLAGS.MD5_CHECKSUM_PRESENT);
+      expect(view.getUint32(484, true)).toBe(MEMORY_LAYOUT.PAYLOAD_BASE);
+      expect(view.getUint32(488, true)).toBe(256);
+      expect(result.data.slice(492, 508)).toEqual(calculateMD5(data));
+    });
+
+    test('rejects MD5 with 476-byte payloads', () => {
+      expect(() => encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+        payloadSize: 476,
+        md5: true,
+      })).toThrow('no room for MD5');
+    });
+  });
+
+  describe('extension tags', () => {
+    test('encodes tag header, data and terminator', () => {
+      const encoded = encodeExtensionTags([createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0')]);
+      const view = new DataView(encoded.buffer);
+
+      // 4-byte header + 4 bytes data + 4-byte terminator
+      expect(encoded.byteLength).toBe(12);
+      expect(encoded[0]).toBe(8);
+      expect(view.getUint32(0, true) >>> 8).toBe(UF2_EXTENSION_TAG_TYPES.VERSION);
+      expect(new TextDecoder().decode(encoded.slice(4, 8))).toBe('v1.0');
+      expect(view.getUint32(8, true)).toBe(0);
+    });
+
+    test('pads tags to 4 bytes', () => {
+      const encoded = encodeExtensionTags([
+        createTextTag(UF2_EXTENSION_TAG_TYPES.DESCRIPTION, 'Pico'),
+        createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1'),
+      ]);
+
+      expect(encoded.byteLength).toBe(8 + 8 + 4);
+      expect(encoded[8]).toBe(6);
+    });
+
+    test('round-trips through parseExtensionTags', () => {
+      const tags = [
+        createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'PicoBoot v1.0 + gekkoboot v2.0'),
+        createPageSizeTag(4096),
+        createSHA2Tag(new Uint8Array(32).fill(0xAB)),
+      ];
+
+      expect(parseExtensionTags(encodeExtensionTags(tags))).toEqual(tags);
+    });
+
+    test('stops parsing at malformed tag', () => {
+      const data = new Uint8Array(8);
+      data[0] = 0xF0; // Size beyond end
+
+      expect(parseExtensionTags(data)).toEqual([]);
+    });
+
+    test('rejects oversized tag', () => {
+      expect(() => encodeExtensionTags([
+        { type: UF2_EXTENSION_TAG_TYPES.DESCRIPTION, data: new Uint8Array(252) },
+      ])).toThrow('UF2 extension tag too large');
+    });
+
+    test('rejects invalid tag type', () => {
+      expect(() => encodeExtensionTags([
+        { type: 0x1000000, data: new Uint8Array(4) },
+      ])).toThrow('Invalid UF2 extension tag type');
+    });
+
+    test('describes known tags', () => {
+      expect(describeExtensionTag(createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0')))
+        .toEqual({ name: 'Version', value: 'v1.0' });
+      expect(describeExtensionTag(createPageSizeTag(256)))
+        .toEqual({ name: 'Page size', value: '256' });
+      expect(describeExtensionTag(createSHA2Tag(new Uint8Array([0xDE, 0xAD]))))
+        .toEqual({ name: 'SHA-2', value: 'dead' });
+      expect(describeExtensionTag({ type: 0x123456, data: new Uint8Array([1]) }))
+        .toEqual({ name: 'Tag 0x123456', value: '01' });
+    });
+
+    test('stores tags after payload in first block only', () => {
+      const result = encodeToUF2(new Uint8Array(512), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+        tags: [createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0')],
+      });
+      const view = new DataView(result.data.buffer);
+
+      expect(view.getUint32(8, true) & UF2_FLAGS.EXTENSION_TAGS_PRESENT).toBeTruthy();
+      expect(view.getUint32(512 + 8, true) & UF2_FLAGS.EXTENSION_TAGS_PRESENT).toBe(0);
+      expect(parseExtensionTags(result.data.slice(32 + 256, 508))).toEqual([
+        createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0'),
+      ]);
+    });
+
+    test('rejects tags that do not fit in block', () => {
+      expect(() => encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+        payloadSize: 476,
+        tags: [createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0')],
+      })).toThrow('UF2 extension tags do not fit');
+    });
+  });
+
+  describe('checksum trailer', () => {
+    test('round-trips through parseChecksumTrailer', () => {
+      const trailer = { address: 0x10000100, length: 256, md5: new Uint8Array(16).fill(0x5A) };
+      const dataArea = new Uint8Array(476);
+      dataArea.set(encodeChecksumTrailer(trailer), 452);
+
+      expect(parseChecksumTrailer(dataArea)).toEqual(trailer);
+    });
+  });
+
+  describe('encodeRangesToUF2', () => {
+    test('encodes sparse ranges with a gap', () => {
+      const result = encodeRangesToUF2([
+        { address: 0x10000000, data: new Uint8Array(256).fill(0x01) },
+        { address: 0x10001000, data: new Uint8Array(512).fill(0x02) },
+      ], { platform: 'RP2040', baseAddress: 0 });
+      const view = new DataView(result.data.buffer);
+
+      expect(result.blockCount).toBe(3);
+      expect(result.baseAddress).toBe(0x10000000);
+      expect(view.getUint32(512 + 12, true)).toBe(0x10001000);
+      expect(view.getUint32(1024 + 12, true)).toBe(0x10001100);
+      expect(view.getUint32(1024 + 24, true)).toBe(3);
+    });
+
+    test('sorts ranges by address', () => {
+      const result = encodeRangesToUF2([
+        { address: 0x10001000, data: new Uint8Array(256) },
+        { address: 0x10000000, data: new Uint8Array(256) },
+      ], { platform: 'RP2040', baseAddress: 0 });
+      const view = new DataView(result.data.buffer);
+
+      expect(view.getUint32(12, true)).toBe(0x10000000);
+      expect(view.getUint32(512 + 12, true)).toBe(0x10001000);
+    });
+
+    test('aligns blocks to 256-byte pages', () => {
+      const result = encodeRangesToUF2([
+        { address: 0x10000080, data: new Uint8Array(256).fill(0xAA) },
+      ], { platform: 'RP2040', baseAddress: 0 });
+      const view = new DataView(result.data.buffer);
+
+      expect(result.blockCount).toBe(2);
+      expect(view.getUint32(12, true)).toBe(0x10000000);
+      expect(view.getUint32(512 + 12, true)).toBe(0x10000100);
+      expect(result.data.slice(32, 32 + 0x80).every(b => b === 0)).toBe(true);
+      expect(result.data.slice(32 + 0x80, 32 + 256).every(b => b === 0xAA)).toBe(true);
+    });
+
+    test('combines ranges sharing a page', () => {
+      const result = encodeRangesToUF2([
+        { address: 0x10000000, data: new Uint8Array(16).fill(0x01) },
+        { address: 0x10000080, data: new Uint8Array(16).fill(0x02) },
+      ], { platform: 'RP2040', baseAddress: 0 });
+
+      expect(result.blockCount).toBe(1);
+      expect(result.data[32]).toBe(0x01);
+      expect(result.data[32 + 0x80]).toBe(0x02);
+    });
+
+    test('rejects overlapping ranges', () => {
+      expect(() => encodeRangesToUF2([
+        { address: 0x10000000, data: new Uint8Array(256) },
+        { address: 0x10000080, data: new Uint8Array(256) },
+      ], { platform: 'RP2040', baseAddress: 0 })).toThrow('Overlapping UF2 input ranges');
+    });
+  });
+
+  describe('flash layout', () => {
+    test('accepts data inside the layout flash', () => {
+      const layout = getFlashLayout('pico');
+      const result = encodeToUF2(new Uint8Array(1024), {
+        platform: 'RP2040',
+        baseAddress: layout.payloadBase,
+        layout,
+      });
+
+      expect(result.blockCount).toBe(4);
+    });
+
+    test('rejects data past the end of flash', () => {
+      const layout = getFlashLayout('pico');
+
+      expect(() => encodeToUF2(new Uint8Array(512), {
+        platform: 'RP2040',
+        baseAddress: layout.flashBase + layout.flashSize - 256,
+        layout,
+      })).toThrow('is outside Raspberry Pi Pico / Pico W (2 MB) flash');
+    });
+
+    test('allows the same data on a larger board', () => {
+      const layout = getFlashLayout('rp2040-16mb');
+
+      expect(() => encodeToUF2(new Uint8Array(512), {
+        platform: 'RP2040',
+        baseAddress: 0x10200000 - 256,
+        layout,
+      })).not.toThrow();
+    });
+
+    test('skips the check for NOT_MAIN_FLASH blocks', () => {
+      expect(() => encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: 0x20000000,
+        notMainFlash: true,
+        layout: getFlashLayout('pico'),
+      })).not.toThrow();
+    });
+  });
+
   describe('getFamilyId', () => {
     test('returns correct ID for RP2040', () => {
       expect(getFamilyId('RP2040')).toBe(0xE48BFF56);
@@ -245,6 +584,8 @@ describe('UF2 Encoder', () => {
     test('UF2_FAMILY_IDS are correct', () => {
       expect(UF2_FAMILY_IDS.RP2040).toBe(0xE48BFF56);
       expect(UF2_FAMILY_IDS.RP2350).toBe(0xE48BFF59);
+      expect(UF2_FAMILY_IDS.RP2350_RISCV).toBe(0xE48BFF5A);
+      expect(UF2_FAMILY_IDS.ABSOLUTE).toBe(0xE48BFF57);
     });
 
     test('MEMORY_LAYOUT is correct', () => {
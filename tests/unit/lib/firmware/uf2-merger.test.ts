@@ -1,13 +1,30 @@
 import { describe, test, expect } from 'vitest';
 import {
   mergeUF2,
+  replacePayload,
+  splitUF2,
   parseUF2Blocks,
+  inspectUF2,
+  validateUF2,
+  UF2ValidationError,
+  serializeBlocks,
   validateMemoryLayout,
   renumberBlocks,
+  getPayloadFamily,
+  fitTextTag,
   type UF2Block,
   type MergeResult,
 } from '@/lib/firmware/uf2-merger';
-import { encodeToUF2, MEMORY_LAYOUT } from '@/lib/firmware/uf2-encoder';
+import {
+  encodeToUF2,
+  createTextTag,
+  MEMORY_LAYOUT,
+  UF2_FLAGS,
+  UF2_FAMILY_IDS,
+  UF2_EXTENSION_TAG_TYPES,
+} from '@/lib/firmware/uf2-encoder';
+import { getFlashLayout } from '@/lib/firmware/flash-layout';
+import { calculateMD5 } from '@/lib/utils/md5';
 
 describe('UF2 Merger', () => {
   // Helper: Create test UF2 data
@@ -19,6 +36,23 @@ describe('UF2 Merger', () => {
     return encodeToUF2(data, { platform, baseAddress });
   }
 
+  // Helper: Create a block with the given fields
+  function createBlock(fields: Partial<UF2Block>): UF2Block {
+    return {
+      magicStart0: 0x0A324655,
+      magicStart1: 0x9E5D5157,
+      flags: UF2_FLAGS.FAMILY_ID_PRESENT,
+      targetAddr: MEMORY_LAYOUT.FLASH_BASE,
+      payloadSize: 256,
+      blockNo: 0,
+      numBlocks: 1,
+      familyID: 0xE48BFF56,
+      data: new Uint8Array(256),
+      magicEnd: 0x0AB16F30,
+      ...fields,
+    };
+  }
+
   describe('mergeUF2', () => {
     test('merges base and payload UF2 files', () => {
       const base = createTestUF2(512, MEMORY_LAYOUT.FLASH_BASE);
@@ -165,6 +199,630 @@ describe('UF2 Merger', () => {
     });
   });
 
+  describe('block data area', () => {
+    const version = createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'PicoBoot v1.0');
+
+    test('reads payload of 476-byte blocks', () => {
+      const data = new Uint8Array(476).map((_, i) => i & 0xFF);
+      const uf2 = encodeToUF2(data, { platform: 'RP2040', baseAddress: 0x20000000, payloadSize: 476 });
+      const [block] = parseUF2Blocks(uf2.data);
+
+      expect(block.payloadSize).toBe(476);
+      expect(block.data).toEqual(data);
+    });
+
+    test('parses extension tags', () => {
+      const uf2 = encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+        tags: [version],
+      });
+      const blocks = parseUF2Blocks(uf2.data);
+
+      expect(blocks[0].tags).toEqual([version]);
+    });
+
+    test('parses MD5 checksum trailer', () => {
+      const data = new Uint8Array(256).fill(0x33);
+      const uf2 = encodeToUF2(data, {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+        md5: true,
+      });
+      const [block] = parseUF2Blocks(uf2.data);
+
+      expect(block.checksum).toEqual({
+        address: MEMORY_LAYOUT.FLASH_BASE,
+        length: 256,
+        md5: calculateMD5(data),
+      });
+    });
+
+    test('leaves tags and checksum undefined when flags are clear', () => {
+      const [block] = parseUF2Blocks(createTestUF2(256, MEMORY_LAYOUT.FLASH_BASE).data);
+
+      expect(block.tags).toBeUndefined();
+      expect(block.checksum).toBeUndefined();
+    });
+
+    test('preserves tags and checksum through merge', () => {
+      const base = encodeToUF2(new Uint8Array(512), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+        md5: true,
+        tags: [version],
+      });
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+
+      const merged = parseUF2Blocks(mergeUF2(base.data, payload.data).data);
+      const original = parseUF2Blocks(base.data);
+
+      expect(merged[0].tags).toEqual([version]);
+      expect(merged[0].checksum).toEqual(original[0].checksum);
+      expect(merged[1].checksum).toEqual(original[1].checksum);
+      expect(merged[0].flags).toBe(original[0].flags);
+    });
+  });
+
+  describe('mergeUF2 tags', () => {
+    test('adds tags to first merged block', () => {
+      const base = createTestUF2(512, MEMORY_LAYOUT.FLASH_BASE);
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+      const tag = createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'PicoBoot v1.0 + gekkoboot v2.0');
+
+      const blocks = parseUF2Blocks(mergeUF2(base.data, payload.data, { tags: [tag] }).data);
+
+      expect(blocks[0].tags).toEqual([tag]);
+      expect(blocks[0].flags & UF2_FLAGS.EXTENSION_TAGS_PRESENT).toBeTruthy();
+      expect(blocks.slice(1).every(b => b.tags === undefined)).toBe(true);
+    });
+
+    test('replaces existing tag of the same type', () => {
+      const description = createTextTag(UF2_EXTENSION_TAG_TYPES.DESCRIPTION, 'Raspberry Pi Pico');
+      const base = encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+        tags: [description, createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0')],
+      });
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+      const version = createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0 + gekkoboot v2.0');
+
+      const [first] = parseUF2Blocks(mergeUF2(base.data, payload.data, { tags: [version] }).data);
+
+      expect(first.tags).toEqual([description, version]);
+    });
+
+    test('rejects tags that do not fit', () => {
+      const base = createTestUF2(256, MEMORY_LAYOUT.FLASH_BASE);
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+      const tags = [
+        createTextTag(UF2_EXTENSION_TAG_TYPES.DESCRIPTION, 'x'.repeat(200)),
+        createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'y'.repeat(100)),
+      ];
+
+      expect(() => mergeUF2(base.data, payload.data, { tags })).toThrow('do not fit');
+    });
+  });
+
+  describe('fitTextTag', () => {
+    const VERSION = UF2_EXTENSION_TAG_TYPES.VERSION;
+
+    test('keeps text that fits', () => {
+      const base = createTestUF2(1024, MEMORY_LAYOUT.FLASH_BASE).data;
+
+      expect(fitTextTag(base, VERSION, 'PicoBoot v1.0')).toEqual(createTextTag(VERSION, 'PicoBoot v1.0'));
+    });
+
+    test('shortens text to the room left in the first block', () => {
+      const base = createTestUF2(1024, MEMORY_LAYOUT.FLASH_BASE).data;
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE).data;
+      const tag = fitTextTag(base, VERSION, 'ä'.repeat(300));
+
+      // 476 - 256 bytes, minus tag header and terminator
+      expect(tag?.data.byteLength).toBeLessThanOrEqual(212);
+      expect(new TextDecoder().decode(tag?.data)).toMatch(/^ä+…$/);
+      expect(() => mergeUF2(base, payload, { tags: [tag!] })).not.toThrow();
+    });
+
+    test('leaves room for tags of other types', () => {
+      const description = createTextTag(UF2_EXTENSION_TAG_TYPES.DESCRIPTION, 'd'.repeat(100));
+      const blocks = parseUF2Blocks(createTestUF2(256, MEMORY_LAYOUT.FLASH_BASE).data);
+      const base = serializeBlocks([{ ...blocks[0], tags: [description] }]);
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE).data;
+      const tag = fitTextTag(base, VERSION, 'v'.repeat(300));
+
+      expect(() => mergeUF2(base, payload, { tags: [tag!] })).not.toThrow();
+    });
+
+    test('drops the tag without room', () => {
+      const full = createBlock({ payloadSize: 476, data: new Uint8Array(476) });
+
+      expect(fitTextTag(serializeBlocks([full]), VERSION, 'PicoBoot v1.0')).toBeNull();
+    });
+  });
+
+  describe('inspectUF2', () => {
+    test('reports contiguous ranges and gaps of merged firmware', () => {
+      const base = createTestUF2(1024, MEMORY_LAYOUT.FLASH_BASE);
+      const payload = createTestUF2(512, MEMORY_LAYOUT.PAYLOAD_BASE);
+      const report = inspectUF2(mergeUF2(base.data, payload.data).data);
+
+      expect(report.valid).toBe(true);
+      expect(report.blockCount).toBe(6);
+      expect(report.totalSize).toBe(1536);
+      expect(report.families).toEqual([{ familyID: 0xE48BFF56, name: 'RP2040', blockCount: 6 }]);
+      expect(report.ranges).toEqual([
+        { familyID: 0xE48BFF56, start: 0x10000000, end: 0x10000400, size: 1024, blockCount: 4 },
+        { familyID: 0xE48BFF56, start: 0x10080000, end: 0x10080200, size: 512, blockCount: 2 },
+      ]);
+      expect(report.gaps).toEqual([
+        { familyID: 0xE48BFF56, start: 0x10000400, end: 0x10080000, size: 0x7FC00 },
+      ]);
+      expect(report.payloadSizes).toEqual([256]);
+      expect(report.flags.familyIdPresent).toBe(6);
+      expect(report.findings).toEqual([]);
+    });
+
+    test('collects extension tags', () => {
+      const tag = createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0');
+      const uf2 = encodeToUF2(new Uint8Array(256), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.FLASH_BASE,
+        tags: [tag],
+      });
+      const report = inspectUF2(uf2.data);
+
+      expect(report.tags).toEqual([tag]);
+      expect(report.flags.extensionTags).toBe(1);
+    });
+
+    test('reports invalid file size without throwing', () => {
+      const report = inspectUF2(new Uint8Array(700));
+
+      expect(report.valid).toBe(false);
+      expect(report.findings[0].code).toBe('invalid-size');
+    });
+
+    test('skips blocks with bad magic', () => {
+      const uf2 = createTestUF2(512, MEMORY_LAYOUT.FLASH_BASE).data;
+      uf2[512] = 0x00;
+      const report = inspectUF2(uf2);
+
+      expect(report.blockCount).toBe(1);
+      expect(report.findings.map(f => f.code)).toContain('bad-magic');
+      expect(report.findings.find(f => f.code === 'bad-magic')?.blockIndex).toBe(1);
+    });
+
+    test('detects duplicate blocks', () => {
+      const report = inspectUF2(serializeBlocks([
+        createBlock({ blockNo: 0, numBlocks: 2 }),
+        createBlock({ blockNo: 1, numBlocks: 2 }),
+      ]));
+
+      expect(report.valid).toBe(false);
+      expect(report.findings.map(f => f.code)).toEqual(['duplicate-block']);
+      expect(report.ranges).toHaveLength(1);
+    });
+
+    test('detects overlapping blocks', () => {
+      const report = inspectUF2(serializeBlocks([
+        createBlock({ blockNo: 0, numBlocks: 2 }),
+        createBlock({ blockNo: 1, numBlocks: 2, targetAddr: MEMORY_LAYOUT.FLASH_BASE + 0x80 }),
+      ]));
+
+      expect(report.findings.map(f => f.code)).toEqual(['unaligned-address', 'overlapping-blocks']);
+      expect(report.ranges[0].end).toBe(MEMORY_LAYOUT.FLASH_BASE + 0x180);
+    });
+
+    test('detects block numbering problems', () => {
+      const report = inspectUF2(serializeBlocks([
+        createBlock({ blockNo: 0, numBlocks: 3 }),
+        createBlock({ blockNo: 5, numBlocks: 3, targetAddr: MEMORY_LAYOUT.FLASH_BASE + 0x100 }),
+      ]));
+      const codes = report.findings.map(f => f.code);
+
+      expect(codes.filter(c => c === 'num-blocks-mismatch')).toHaveLength(2);
+      expect(codes.filter(c => c === 'block-number-mismatch')).toHaveLength(1);
+    });
+
+    test('checks numbering per family', () => {
+      const report = inspectUF2(serializeBlocks([
+        createBlock({ blockNo: 0, numBlocks: 1 }),
+        createBlock({ blockNo: 0, numBlocks: 1, familyID: 0xE48BFF59 }),
+      ]));
+
+      expect(report.families.map(f => f.name)).toEqual(['RP2040', 'RP2350']);
+      expect(report.ranges).toHaveLength(2);
+      expect(report.findings.map(f => f.code)).toEqual(['multiple-families']);
+      expect(report.valid).toBe(true);
+    });
+
+    test('ignores alignment of blocks not written to flash', () => {
+      const report = inspectUF2(serializeBlocks([
+        createBlock({ targetAddr: 0x20000010, flags: UF2_FLAGS.FAMILY_ID_PRESENT | UF2_FLAGS.NOT_MAIN_FLASH }),
+      ]));
+
+      expect(report.findings).toEqual([]);
+    });
+
+    test('reports invalid payload size and missing family flag', () => {
+      const report = inspectUF2(serializeBlocks([
+        createBlock({ payloadSize: 500, flags: 0 }),
+      ]));
+      const codes = report.findings.map(f => f.code);
+
+      expect(codes).toContain('invalid-payload-size');
+      expect(codes).toContain('missing-family-id');
+      expect(report.payloadSizes).toEqual([500]);
+    });
+  });
+
+  describe('validateUF2', () => {
+    test('accepts encoder output', () => {
+      const report = validateUF2(createTestUF2(4096, MEMORY_LAYOUT.FLASH_BASE).data);
+
+      expect(report.valid).toBe(true);
+      expect(report.blockCount).toBe(16);
+    });
+
+    test('rejects truncated file', () => {
+      const uf2 = createTestUF2(4096, MEMORY_LAYOUT.FLASH_BASE).data;
+
+      expect(() => validateUF2(uf2.slice(0, 8 * 512))).toThrow('numBlocks 16, expected 8');
+    });
+
+    test('rejects non-sequential block numbers', () => {
+      const uf2 = serializeBlocks([
+        createBlock({ blockNo: 1, numBlocks: 2 }),
+        createBlock({ blockNo: 0, numBlocks: 2, targetAddr: MEMORY_LAYOUT.FLASH_BASE + 256 }),
+      ]);
+
+      expect(() => validateUF2(uf2)).toThrow('has blockNo 1, expected 0');
+    });
+
+    test('rejects payload size over 476', () => {
+      const uf2 = serializeBlocks([createBlock({ payloadSize: 480 })]);
+
+      expect(() => validateUF2(uf2)).toThrow('invalid payload size 480');
+    });
+
+    test('rejects unaligned flash address', () => {
+      const uf2 = serializeBlocks([createBlock({ targetAddr: MEMORY_LAYOUT.FLASH_BASE + 4 })]);
+
+      expect(() => validateUF2(uf2)).toThrow('not 256-byte aligned');
+    });
+
+    test('rejects blocks writing the same address', () => {
+      const uf2 = serializeBlocks([
+        createBlock({ blockNo: 0, numBlocks: 2 }),
+        createBlock({ blockNo: 1, numBlocks: 2 }),
+      ]);
+
+      expect(() => validateUF2(uf2)).toThrow('both write 0x10000000');
+    });
+
+    test('rejects multiple families unless allowed', () => {
+      const uf2 = serializeBlocks([
+        createBlock({}),
+        createBlock({ familyID: 0xE48BFF59, targetAddr: MEMORY_LAYOUT.FLASH_BASE + 256 }),
+      ]);
+
+      expect(() => validateUF2(uf2)).toThrow('2 families');
+      expect(validateUF2(uf2, { allowMultipleFamilies: true }).warningCount).toBe(1);
+    });
+
+    test('accepts the picotool RP2350 absolute block', () => {
+      // picotool writes a single absolute block numbered as 0 of 2
+      const uf2 = serializeBlocks([
+        createBlock({ familyID: UF2_FAMILY_IDS.ABSOLUTE, targetAddr: 0x10FFFF00, numBlocks: 2 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 0, numBlocks: 2 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 1, numBlocks: 2, targetAddr: 0x10000100 }),
+      ]);
+
+      expect(validateUF2(uf2, { allowMultipleFamilies: true }).errorCount).toBe(0);
+    });
+
+    test('leaves special blocks out of the family numbering', () => {
+      const uf2 = serializeBlocks([
+        createBlock({ blockNo: 0, numBlocks: 1 }),
+        createBlock({
+          flags: UF2_FLAGS.FAMILY_ID_PRESENT | UF2_FLAGS.NOT_MAIN_FLASH,
+          targetAddr: 0x20000000,
+          blockNo: 9,
+          numBlocks: 9,
+        }),
+      ]);
+
+      expect(validateUF2(uf2).errorCount).toBe(0);
+    });
+
+    test('throws UF2ValidationError with report and name', () => {
+      const uf2 = serializeBlocks([createBlock({ payloadSize: 480 })]);
+
+      try {
+        validateUF2(uf2, { name: 'Base firmware' });
+        expect.fail('Expected UF2ValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(UF2ValidationError);
+        expect((error as UF2ValidationError).message).toMatch(/^Base firmware is not a valid UF2/);
+        expect((error as UF2ValidationError).report.errorCount).toBe(1);
+      }
+    });
+  });
+
+  describe('mergeUF2 validation', () => {
+    test('rejects truncated base firmware', () => {
+      const base = createTestUF2(4096, MEMORY_LAYOUT.FLASH_BASE).data;
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE).data;
+
+      expect(() => mergeUF2(base.slice(0, 4 * 512), payload)).toThrow('Base firmware is not a valid UF2');
+    });
+
+    test('rejects payload family not used by base firmware', () => {
+      const base = createTestUF2(256, MEMORY_LAYOUT.FLASH_BASE, 'RP2040').data;
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE, 'RP2350').data;
+
+      expect(() => mergeUF2(base, payload)).toThrow('Payload family RP2350 (0xe48bff59) does not match');
+    });
+
+    test('rejects multi-family payload', () => {
+      const base = createTestUF2(256, MEMORY_LAYOUT.FLASH_BASE).data;
+      const payload = serializeBlocks([
+        createBlock({ targetAddr: MEMORY_LAYOUT.PAYLOAD_BASE }),
+        createBlock({ targetAddr: MEMORY_LAYOUT.PAYLOAD_BASE + 256, familyID: 0xE48BFF59 }),
+      ]);
+
+      expect(() => mergeUF2(base, payload)).toThrow('Payload is not a valid UF2');
+    });
+  });
+
+  describe('multi-family merge', () => {
+    // Helper: RP2350 base firmware with an absolute block at the end of flash
+    function createRP2350Base(): Uint8Array {
+      return serializeBlocks([
+        createBlock({ familyID: UF2_FAMILY_IDS.ABSOLUTE, targetAddr: 0x10FFFF00 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 0, numBlocks: 2 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 1, numBlocks: 2, targetAddr: 0x10000100 }),
+      ]);
+    }
+
+    test('numbers blocks per family', () => {
+      const payload = createTestUF2(512, MEMORY_LAYOUT.PAYLOAD_BASE, 'RP2350').data;
+      const blocks = parseUF2Blocks(mergeUF2(createRP2350Base(), payload).data);
+
+      expect(blocks.map(b => [b.familyID, b.blockNo, b.numBlocks])).toEqual([
+        [UF2_FAMILY_IDS.ABSOLUTE, 0, 1],
+        [UF2_FAMILY_IDS.RP2350, 0, 4],
+        [UF2_FAMILY_IDS.RP2350, 1, 4],
+        [UF2_FAMILY_IDS.RP2350, 2, 4],
+        [UF2_FAMILY_IDS.RP2350, 3, 4],
+      ]);
+    });
+
+    test('preserves absolute block unchanged', () => {
+      const base = createRP2350Base();
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE, 'RP2350').data;
+
+      expect(mergeUF2(base, payload).data.slice(0, 512)).toEqual(base.slice(0, 512));
+    });
+
+    test('merged firmware passes multi-family validation', () => {
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE, 'RP2350').data;
+      const merged = mergeUF2(createRP2350Base(), payload).data;
+
+      expect(() => validateUF2(merged, { allowMultipleFamilies: true })).not.toThrow();
+    });
+
+    test('puts tags on first regular block', () => {
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE, 'RP2350').data;
+      const tag = createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'v1.0');
+      const blocks = parseUF2Blocks(mergeUF2(createRP2350Base(), payload, { tags: [tag] }).data);
+
+      expect(blocks[0].tags).toBeUndefined();
+      expect(blocks[1].tags).toEqual([tag]);
+    });
+
+    test('rejects payload overlapping a special block', () => {
+      const base = serializeBlocks([
+        createBlock({ familyID: UF2_FAMILY_IDS.ABSOLUTE, targetAddr: MEMORY_LAYOUT.PAYLOAD_BASE + 256 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350 }),
+      ]);
+      const payload = createTestUF2(1024, MEMORY_LAYOUT.PAYLOAD_BASE, 'RP2350').data;
+
+      expect(() => mergeUF2(base, payload)).toThrow('is inside payload');
+    });
+
+    test('payload family follows a RISC-V base', () => {
+      const base = serializeBlocks([
+        createBlock({ familyID: UF2_FAMILY_IDS.ABSOLUTE, targetAddr: 0x10FFFF00 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350_RISCV }),
+      ]);
+
+      expect(getPayloadFamily(base, UF2_FAMILY_IDS.RP2350)).toBe(UF2_FAMILY_IDS.RP2350_RISCV);
+      expect(getPayloadFamily(createRP2350Base(), UF2_FAMILY_IDS.RP2350)).toBe(UF2_FAMILY_IDS.RP2350);
+      expect(getPayloadFamily(new Uint8Array(100), UF2_FAMILY_IDS.RP2040)).toBe(UF2_FAMILY_IDS.RP2040);
+    });
+
+    test('payload family does not cross chips', () => {
+      expect(() => getPayloadFamily(createRP2350Base(), UF2_FAMILY_IDS.RP2040))
+        .toThrow('does not match RP2040');
+    });
+
+    test('merges a base with a picotool absolute block', () => {
+      // picotool writes the absolute block as block 0 of 2
+      const base = serializeBlocks([
+        createBlock({ familyID: UF2_FAMILY_IDS.ABSOLUTE, targetAddr: 0x10FFFF00, numBlocks: 2 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 0, numBlocks: 2 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 1, numBlocks: 2, targetAddr: 0x10000100 }),
+      ]);
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE, 'RP2350').data;
+
+      const merged = mergeUF2(base, payload).data;
+      const blocks = parseUF2Blocks(merged);
+
+      expect(merged.slice(0, 512)).toEqual(base.slice(0, 512));
+      expect(blocks.map(b => [b.familyID, b.blockNo, b.numBlocks])).toEqual([
+        [UF2_FAMILY_IDS.ABSOLUTE, 0, 2],
+        [UF2_FAMILY_IDS.RP2350, 0, 3],
+        [UF2_FAMILY_IDS.RP2350, 1, 3],
+        [UF2_FAMILY_IDS.RP2350, 2, 3],
+      ]);
+      expect(splitUF2(merged).base).toEqual(base);
+    });
+
+    test('renumberBlocks keeps block order', () => {
+      const renumbered = renumberBlocks([
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 7 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350_RISCV, blockNo: 7 }),
+        createBlock({ familyID: UF2_FAMILY_IDS.RP2350, blockNo: 7 }),
+      ]);
+
+      expect(renumbered.map(b => [b.familyID, b.blockNo, b.numBlocks])).toEqual([
+        [UF2_FAMILY_IDS.RP2350, 0, 2],
+        [UF2_FAMILY_IDS.RP2350_RISCV, 0, 1],
+        [UF2_FAMILY_IDS.RP2350, 1, 2],
+      ]);
+    });
+  });
+
+  describe('replacePayload', () => {
+    test('swaps the payload and keeps base blocks', () => {
+      const base = createTestUF2(1024, MEMORY_LAYOUT.FLASH_BASE);
+      const oldPayload = createTestUF2(4096, MEMORY_LAYOUT.PAYLOAD_BASE);
+      const existing = mergeUF2(base.data, oldPayload.data);
+
+      const newPayload = encodeToUF2(new Uint8Array(512).fill(0xAB), {
+        platform: 'RP2040',
+        baseAddress: MEMORY_LAYOUT.PAYLOAD_BASE,
+      });
+      const result = replacePayload(existing.data, newPayload.data);
+      const blocks = parseUF2Blocks(result.data);
+
+      expect(result.baseBlocks).toBe(4);
+      expect(result.payloadBlocks).toBe(2);
+      expect(result.totalBlocks).toBe(6);
+      expect(blocks.slice(0, 4).map(b => b.data)).toEqual(parseUF2Blocks(base.data).map(b => b.data));
+      expect(blocks[4].data.slice(0, 256)).toEqual(new Uint8Array(256).fill(0xAB));
+      expect(blocks.map(b => b.blockNo)).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(blocks.every(b => b.numBlocks === 6)).toBe(true);
+    });
+
+    test('matches merging the new payload into the base', () => {
+      const base = createTestUF2(1024, MEMORY_LAYOUT.FLASH_BASE);
+      const existing = mergeUF2(base.data, createTestUF2(2048, MEMORY_LAYOUT.PAYLOAD_BASE).data);
+      const newPayload = createTestUF2(768, MEMORY_LAYOUT.PAYLOAD_BASE);
+
+      expect(replacePayload(existing.data, newPayload.data).data)
+        .toEqual(mergeUF2(base.data, newPayload.data).data);
+    });
+
+    test('accepts base firmware without a payload', () => {
+      const base = createTestUF2(512, MEMORY_LAYOUT.FLASH_BASE);
+      const newPayload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+
+      expect(replacePayload(base.data, newPayload.data).totalBlocks).toBe(3);
+    });
+
+    test('replaces version tags', () => {
+      const base = createTestUF2(512, MEMORY_LAYOUT.FLASH_BASE);
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+      const existing = mergeUF2(base.data, payload.data, {
+        tags: [createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'old')],
+      });
+
+      const result = replacePayload(existing.data, payload.data, {
+        tags: [createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'new')],
+      });
+
+      expect(parseUF2Blocks(result.data)[0].tags).toEqual([
+        createTextTag(UF2_EXTENSION_TAG_TYPES.VERSION, 'new'),
+      ]);
+    });
+
+    test('uses the layout payload base', () => {
+      const layout = { ...getFlashLayout('pico'), payloadBase: 0x10100000, maxPayloadSize: 0x100000 };
+      const base = createTestUF2(512, MEMORY_LAYOUT.FLASH_BASE);
+      const existing = mergeUF2(base.data, createTestUF2(256, 0x10100000).data);
+
+      const result = replacePayload(existing.data, createTestUF2(512, 0x10100000).data, { layout });
+
+      expect(result.baseBlocks).toBe(2);
+      expect(result.payloadBlocks).toBe(2);
+    });
+
+    test('rejects firmware without base blocks', () => {
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+
+      expect(() => replacePayload(payload.data, payload.data))
+        .toThrow('Existing firmware has no base firmware below 0x10080000');
+    });
+
+    test('rejects invalid existing firmware', () => {
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+
+      expect(() => replacePayload(new Uint8Array(100), payload.data))
+        .toThrow('Existing firmware is not a valid UF2');
+    });
+  });
+
+  describe('splitUF2', () => {
+    test('restores base and payload of merged firmware', () => {
+      const base = createTestUF2(1024, MEMORY_LAYOUT.FLASH_BASE);
+      const payload = createTestUF2(2048, MEMORY_LAYOUT.PAYLOAD_BASE);
+      const merged = mergeUF2(base.data, payload.data);
+
+      const split = splitUF2(merged.data);
+
+      expect(split.base).toEqual(base.data);
+      expect(split.payload).toEqual(payload.data);
+      expect(split.baseBlocks).toBe(4);
+      expect(split.payloadBlocks).toBe(8);
+    });
+
+    test('keeps special blocks with the base', () => {
+      const base = serializeBlocks([
+        createBlock({ blockNo: 0, numBlocks: 1 }),
+        createBlock({
+          targetAddr: 0x10FFFF00,
+          familyID: UF2_FAMILY_IDS.ABSOLUTE,
+          blockNo: 0,
+          numBlocks: 1,
+        }),
+      ]);
+      const payload = createTestUF2(256, MEMORY_LAYOUT.PAYLOAD_BASE);
+
+      const split = splitUF2(mergeUF2(base, payload.data).data);
+
+      expect(split.baseBlocks).toBe(2);
+      expect(split.payloadBlocks).toBe(1);
+      expect(parseUF2Blocks(split.base)[1].familyID).toBe(UF2_FAMILY_IDS.ABSOLUTE);
+    });
+
+    test('returns empty payload for base firmware only', () => {
+      const base = createTestUF2(512, MEMORY_LAYOUT.FLASH_BASE);
+
+      const split = splitUF2(base.data);
+
+      expect(split.base).toEqual(base.data);
+      expect(split.payload.byteLength).toBe(0);
+      expect(split.payloadBlocks).toBe(0);
+    });
+
+    test('splits at the layout payload base', () => {
+      const layout = { ...getFlashLayout('pico'), payloadBase: 0x10100000, maxPayloadSize: 0x100000 };
+      const base = createTestUF2(512, 0x100C0000);
+      const payload = createTestUF2(256, 0x10100000);
+      const merged = mergeUF2(base.data, payload.data);
+
+      expect(splitUF2(merged.data).baseBlocks).toBe(0);
+      expect(splitUF2(merged.data, { layout }).baseBlocks).toBe(2);
+    });
+
+    test('rejects invalid firmware', () => {
+      expect(() => splitUF2(new Uint8Array(100))).toThrow('Merged firmware is not a valid UF2');
+    });
+  });
+
   describe('validateMemoryLayout', () => {
     test('validates non-overlapping regions', () => {
       const base = createTestUF2(256, MEMORY_LAYOUT.FLASH_BASE);
@@ -211,6 +869,51 @@ describe('UF2 Merger', () => {
 
       expect(() => validateMemoryLayout(baseBlocks, payloadBlocks)).not.toThrow();
     });
+
+    test('accepts firmware matching the flash layout', () => {
+      const layout = getFlashLayout('pico');
+      const baseBlocks = parseUF2Blocks(createTestUF2(1024, layout.flashBase).data);
+      const payloadBlocks = parseUF2Blocks(createTestUF2(1024, layout.payloadBase).data);
+
+      expect(() => validateMemoryLayout(baseBlocks, payloadBlocks, layout)).not.toThrow();
+    });
+
+    test('rejects base firmware larger than the base region', () => {
+      const layout = getFlashLayout('pico');
+      const baseBlocks = parseUF2Blocks(createTestUF2(1024, layout.flashBase).data);
+      const payloadBlocks = parseUF2Blocks(createTestUF2(256, layout.payloadBase + 0x1000).data);
+      const smallBase = { ...layout, baseRegion: { start: layout.flashBase, size: 512 } };
+
+      expect(() => validateMemoryLayout(baseBlocks, payloadBlocks, smallBase))
+        .toThrow('does not fit Raspberry Pi Pico / Pico W (2 MB) base region');
+    });
+
+    test('rejects payload not at the layout payload base', () => {
+      const layout = getFlashLayout('pico');
+      const baseBlocks = parseUF2Blocks(createTestUF2(256, layout.flashBase).data);
+      const payloadBlocks = parseUF2Blocks(createTestUF2(256, layout.payloadBase + 0x1000).data);
+
+      expect(() => validateMemoryLayout(baseBlocks, payloadBlocks, layout))
+        .toThrow('expected 0x10080000');
+    });
+
+    test('rejects payload past the payload window', () => {
+      const layout = { ...getFlashLayout('pico'), maxPayloadSize: 512 };
+      const baseBlocks = parseUF2Blocks(createTestUF2(256, layout.flashBase).data);
+      const payloadBlocks = parseUF2Blocks(createTestUF2(1024, layout.payloadBase).data);
+
+      expect(() => validateMemoryLayout(baseBlocks, payloadBlocks, layout))
+        .toThrow('past Raspberry Pi Pico / Pico W (2 MB) payload window end 0x10080200');
+    });
+
+    test('mergeUF2 passes the layout to the memory check', () => {
+      const layout = { ...getFlashLayout('pico'), maxPayloadSize: 512 };
+      const base = createTestUF2(256, layout.flashBase);
+      const payload = createTestUF2(1024, layout.payloadBase);
+
+      expect(() => mergeUF2(base.data, payload.data)).not.toThrow();
+      expect(() => mergeUF2(base.data, payload.data, { layout })).toThrow('payload window end');
+    });
   });
 
   describe('renumberBlocks', () => {
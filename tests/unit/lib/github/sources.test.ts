@@ -0,0 +1,152 @@
+import { describe, test, expect } from 'vitest';
+import {
+  DEFAULT_FIRMWARE_SOURCE,
+  getDefaultSourceConfig,
+  getFirmwareAssetPattern,
+  parseSourceParams,
+  toSourceParams,
+  updateSourceParams,
+  validateSourceConfig,
+  withPayloadSource,
+} from '@/lib/github/sources';
+import { getPayloadProvider } from '@/lib/payloads/providers';
+
+describe('Repository Sources', () => {
+  describe('getDefaultSourceConfig', () => {
+    test('uses upstream repositories', () => {
+      const config = getDefaultSourceConfig();
+
+      expect(config.firmware.owner).toBe('webhdx');
+      expect(config.firmware.repo).toBe('PicoBoot');
+      expect(config.payloads.gekkoboot).toEqual({ owner: 'webhdx', repo: 'gekkoboot', assetPattern: '\\.zip$' });
+      expect(config.payloads.swiss.repo).toBe('swiss-gc');
+    });
+
+    test('returns independent copies', () => {
+      const config = getDefaultSourceConfig();
+      config.firmware.assetPatterns.RP2040 = 'changed';
+
+      expect(DEFAULT_FIRMWARE_SOURCE.assetPatterns.RP2040).not.toBe('changed');
+      expect(getDefaultSourceConfig().firmware.assetPatterns.RP2040).not.toBe('changed');
+    });
+  });
+
+  describe('getFirmwareAssetPattern', () => {
+    test('matches only the platform asset', () => {
+      const { firmware } = getDefaultSourceConfig();
+
+      expect(getFirmwareAssetPattern(firmware, 'RP2040').test('picoboot_pico.uf2')).toBe(true);
+      expect(getFirmwareAssetPattern(firmware, 'RP2040').test('picoboot_pico2.uf2')).toBe(false);
+      expect(getFirmwareAssetPattern(firmware, 'RP2350').test('picoboot_pico2.uf2')).toBe(true);
+    });
+  });
+
+  describe('parseSourceParams', () => {
+    test('returns defaults without parameters', () => {
+      expect(parseSourceParams(new URLSearchParams())).toEqual(getDefaultSourceConfig());
+    });
+
+    test('overrides firmware repository and asset patterns', () => {
+      const config = parseSourceParams(new URLSearchParams(
+        'picoboot=fork/PicoBoot-boards&picoboot.rp2040=picoboot_myboard\\.uf2'
+      ));
+
+      expect(config.firmware.owner).toBe('fork');
+      expect(config.firmware.repo).toBe('PicoBoot-boards');
+      expect(config.firmware.assetPatterns.RP2040).toBe('picoboot_myboard\\.uf2');
+      expect(config.firmware.assetPatterns.RP2350).toBe(DEFAULT_FIRMWARE_SOURCE.assetPatterns.RP2350);
+    });
+
+    test('overrides payload repositories', () => {
+      const config = parseSourceParams(new URLSearchParams('gekkoboot=mirror/gekkoboot&gekkoboot.asset=nightly\\.zip$'));
+
+      expect(config.payloads.gekkoboot).toEqual({ owner: 'mirror', repo: 'gekkoboot', assetPattern: 'nightly\\.zip$' });
+      expect(config.payloads.swiss.owner).toBe('emukidid');
+    });
+
+    test('ignores unknown parameters', () => {
+      expect(parseSourceParams(new URLSearchParams('theme=dark'))).toEqual(getDefaultSourceConfig());
+    });
+
+    test('rejects invalid overrides', () => {
+      expect(() => parseSourceParams(new URLSearchParams('picoboot=PicoBoot')))
+        .toThrow('Invalid picoboot repository "PicoBoot" (expected owner/repo)');
+      expect(() => parseSourceParams(new URLSearchParams('swiss=a b/swiss')))
+        .toThrow('Invalid swiss repository');
+      expect(() => parseSourceParams(new URLSearchParams('swiss.asset=(')))
+        .toThrow('Invalid swiss asset pattern');
+    });
+  });
+
+  describe('toSourceParams', () => {
+    test('is empty for the defaults', () => {
+      expect(toSourceParams(getDefaultSourceConfig()).toString()).toBe('');
+    });
+
+    test('round-trips through parseSourceParams', () => {
+      const config = getDefaultSourceConfig();
+      config.firmware.owner = 'fork';
+      config.firmware.assetPatterns.RP2350 = 'picoboot_board2\\.uf2';
+      config.payloads.swiss.assetPattern = '\\.tar\\.xz$|\\.zip$';
+
+      const params = toSourceParams(config);
+
+      expect([...params.keys()]).toEqual(['picoboot', 'picoboot.rp2350', 'swiss.asset']);
+      expect(parseSourceParams(params)).toEqual(config);
+    });
+  });
+
+  describe('updateSourceParams', () => {
+    test('keeps unrelated parameters', () => {
+      const config = getDefaultSourceConfig();
+      config.payloads.gekkoboot.owner = 'fork';
+
+      const params = updateSourceParams(new URLSearchParams('lang=de&picoboot=old/PicoBoot&swiss.asset=x'), config);
+
+      expect(params.toString()).toBe('lang=de&gekkoboot=fork%2Fgekkoboot');
+    });
+
+    test('removes all source parameters for the defaults', () => {
+      const params = updateSourceParams(
+        new URLSearchParams('picoboot.rp2040=a&debug=1&swiss=me%2Fswiss'),
+        getDefaultSourceConfig()
+      );
+
+      expect(params.toString()).toBe('debug=1');
+    });
+  });
+
+  describe('validateSourceConfig', () => {
+    test('accepts the defaults', () => {
+      expect(() => validateSourceConfig(getDefaultSourceConfig())).not.toThrow();
+    });
+
+    test('rejects empty asset patterns', () => {
+      const config = getDefaultSourceConfig();
+      config.firmware.assetPatterns.RP2040 = '';
+
+      expect(() => validateSourceConfig(config)).toThrow('Missing PicoBoot RP2040 asset pattern');
+    });
+  });
+
+  describe('withPayloadSource', () => {
+    test('applies the configured repository and asset', () => {
+      const config = getDefaultSourceConfig();
+      config.payloads.gekkoboot = { owner: 'mirror', repo: 'gekkoboot-dev', assetPattern: 'dev\\.zip$' };
+
+      const provider = withPayloadSource(getPayloadProvider('gekkoboot'), config);
+
+      expect(provider.owner).toBe('mirror');
+      expect(provider.repo).toBe('gekkoboot-dev');
+      expect(provider.assetPattern.test('gekkoboot-dev.zip')).toBe(true);
+      expect(provider.innerFilePattern).toEqual(getPayloadProvider('gekkoboot').innerFilePattern);
+    });
+
+    test('keeps providers without a configured source', () => {
+      const provider = getPayloadProvider('swiss');
+      const config = { ...getDefaultSourceConfig(), payloads: {} };
+
+      expect(withPayloadSource(provider, config)).toBe(provider);
+    });
+  });
+});
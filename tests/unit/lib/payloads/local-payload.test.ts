@@ -0,0 +1,94 @@
+import { describe, test, expect } from 'vitest';
+import {
+  detectPayloadFormat,
+  extractLocalPayload,
+  isPayloadArchive,
+  listPayloadArchive,
+} from '@/lib/payloads/local-payload';
+import { createValidDOL } from '../../../mocks/sample-dol';
+import { createValidELF } from '../../../mocks/sample-elf';
+import {
+  createEmptyZip,
+  createMockZip,
+  createMockZipWithDirectories,
+} from '../../../mocks/archive-mocks';
+
+describe('Local Payload', () => {
+  describe('detectPayloadFormat', () => {
+    test('detects DOL by its entry point', () => {
+      expect(detectPayloadFormat(createValidDOL())).toBe('dol');
+    });
+
+    test('detects ELF', () => {
+      expect(detectPayloadFormat(createValidELF())).toBe('elf');
+    });
+
+    test('detects ZIP, including empty archives', async () => {
+      expect(detectPayloadFormat(await createMockZip())).toBe('zip');
+      expect(detectPayloadFormat(await createEmptyZip())).toBe('zip');
+    });
+
+    test('detects TAR.XZ by the XZ stream header', () => {
+      const xz = new Uint8Array(64);
+      xz.set([0xFD, 0x37, 0x7A, 0x58, 0x5A, 0x00]);
+
+      expect(detectPayloadFormat(xz)).toBe('tar.xz');
+    });
+
+    test('returns null for unsupported files', () => {
+      expect(detectPayloadFormat(new Uint8Array(0))).toBeNull();
+      expect(detectPayloadFormat(new Uint8Array(512))).toBeNull();
+      expect(detectPayloadFormat(new TextEncoder().encode('not a payload'))).toBeNull();
+    });
+  });
+
+  describe('isPayloadArchive', () => {
+    test('is true only for zip and tar.xz', () => {
+      expect(isPayloadArchive('zip')).toBe(true);
+      expect(isPayloadArchive('tar.xz')).toBe(true);
+      expect(isPayloadArchive('dol')).toBe(false);
+      expect(isPayloadArchive('elf')).toBe(false);
+    });
+  });
+
+  describe('listPayloadArchive', () => {
+    test('lists executables first', async () => {
+      const entries = await listPayloadArchive(await createMockZip(), 'zip');
+
+      expect(entries).toEqual(['gekkoboot.dol', 'README.txt', 'docs/manual.pdf']);
+    });
+
+    test('leaves out directories', async () => {
+      const entries = await listPayloadArchive(await createMockZipWithDirectories(), 'zip');
+
+      expect(entries).toEqual(['DOL/swiss_r1957.dol', 'DOL/cubiboot.dol']);
+    });
+
+    test('returns no entries for executables', async () => {
+      expect(await listPayloadArchive(createValidDOL(), 'dol')).toEqual([]);
+    });
+  });
+
+  describe('extractLocalPayload', () => {
+    test('returns DOL and ELF files as they are', async () => {
+      const dol = createValidDOL();
+
+      expect(await extractLocalPayload(dol, 'dol')).toBe(dol);
+    });
+
+    test('extracts the chosen archive entry', async () => {
+      const data = await extractLocalPayload(await createMockZipWithDirectories(), 'zip', 'DOL/cubiboot.dol');
+
+      expect(new TextDecoder().decode(data)).toBe('MOCK_CUBIBOOT_DOL_CONTENT');
+    });
+
+    test('requires an entry for archives', async () => {
+      await expect(extractLocalPayload(await createMockZip(), 'zip'))
+        .rejects.toThrow('Choose a file from the zip archive');
+    });
+
+    test('fails for entries not in the archive', async () => {
+      await expect(extractLocalPayload(await createMockZip(), 'zip', 'missing.dol')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, test, expect } from 'vitest';
+import {
+  BUILTIN_PAYLOAD_PROVIDERS,
+  DEFAULT_PAYLOAD_PROVIDER,
+  getPayloadProvider,
+  listPayloadProviders,
+  registerPayloadProvider,
+  validatePayloadProvider,
+  extractPayloadExecutable,
+  type PayloadProvider,
+} from '@/lib/payloads/providers';
+import { githubClient } from '@/lib/github/api';
+import type { GitHubRelease } from '@/types/github';
+import { createMockZip, createMockSwissTarXz } from '../../../mocks/archive-mocks';
+
+describe('Payload Providers', () => {
+  // Helper: Create a custom provider
+  function createProvider(fields: Partial<PayloadProvider> = {}): PayloadProvider {
+    return {
+      id: 'iplboot',
+      name: 'iplboot',
+      owner: 'example',
+      repo: 'iplboot',
+      assetPattern: /iplboot\.dol$/,
+      archiveType: 'dol',
+      sizeHint: 100 * 1024,
+      description: 'Test payload',
+      ...fields,
+    };
+  }
+
+  describe('built-in providers', () => {
+    test('are all valid', () => {
+      for (const provider of BUILTIN_PAYLOAD_PROVIDERS) {
+        expect(() => validatePayloadProvider(provider)).not.toThrow();
+      }
+    });
+
+    test('include gekkoboot and Swiss', () => {
+      expect(getPayloadProvider(DEFAULT_PAYLOAD_PROVIDER).repo).toBe('gekkoboot');
+
+      const swiss = getPayloadProvider('swiss');
+      expect(swiss.archiveType).toBe('tar.xz');
+      expect(swiss.innerFilePattern?.test('swiss_r1788/DOL/swiss_r1788.dol')).toBe(true);
+    });
+
+    test('throws for unknown providers', () => {
+      expect(() => getPayloadProvider('missing')).toThrow('Unknown payload provider: missing');
+    });
+  });
+
+  describe('Swiss', () => {
+    // Helper: Create a release with the given asset names
+    function createRelease(names: string[]): GitHubRelease {
+      return {
+        id: 1,
+        tag_name: 'v0.6r1788',
+        name: 'Swiss v0.6r1788',
+        draft: false,
+        prerelease: false,
+        created_at: '2024-01-01T00:00:00Z',
+        published_at: '2024-01-01T00:00:00Z',
+        assets: names.map((name, index) => ({
+          id: 100 + index,
+          name,
+          label: null,
+          content_type: 'application/octet-stream',
+          size: 1000,
+          download_count: 0,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+          browser_download_url: `https://github.com/emukidid/swiss-gc/releases/download/v0.6r1788/${name}`,
+          url: `https://api.github.com/repos/emukidid/swiss-gc/releases/assets/${100 + index}`,
+        })),
+        body: '',
+      };
+    }
+
+    test('selects the tar.xz release asset', () => {
+      const release = createRelease(['swiss_r1788.7z', 'swiss_r1788.tar.xz', 'swiss_r1788.zip']);
+
+      const asset = githubClient.findAsset(release, getPayloadProvider('swiss').assetPattern);
+      expect(asset?.name).toBe('swiss_r1788.tar.xz');
+    });
+
+    test('finds no asset in releases without a tar.xz', () => {
+      const release = createRelease(['swiss_r1788.7z', 'swiss_r1788.tar.xz.sha256']);
+
+      expect(githubClient.findAsset(release, getPayloadProvider('swiss').assetPattern)).toBeNull();
+    });
+
+    test('matches only the DOL directory executable', () => {
+      const pattern = getPayloadProvider('swiss').innerFilePattern as RegExp;
+
+      expect(pattern.test('swiss_r1788/DOL/swiss_r1788.dol')).toBe(true);
+      expect(pattern.test('swiss_r1788/DOL/Legacy/swiss_r1788.dol')).toBe(false);
+      expect(pattern.test('swiss_r1788/GCI/swiss_r1788.gci')).toBe(false);
+      expect(pattern.test('swiss_r1788/DOL/swiss_r1788.elf')).toBe(false);
+    });
+
+    test('extracts the DOL from the release archive', async () => {
+      const dol = await extractPayloadExecutable(getPayloadProvider('swiss'), createMockSwissTarXz());
+
+      expect(new TextDecoder().decode(dol)).toBe('MOCK_SWISS_TARXZ_DOL');
+    });
+
+    test('fails when the archive has no Swiss DOL', async () => {
+      const provider = { ...getPayloadProvider('swiss'), innerFilePattern: /DOL\/cubiboot\.dol$/ };
+
+      await expect(extractPayloadExecutable(provider, createMockSwissTarXz()))
+        .rejects.toThrow('No file matching pattern');
+    });
+  });
+
+  describe('registerPayloadProvider', () => {
+    test('adds a provider to the list', () => {
+      const provider = createProvider();
+      registerPayloadProvider(provider);
+
+      expect(getPayloadProvider('iplboot')).toBe(provider);
+      expect(listPayloadProviders().map(p => p.id)).toEqual(['gekkoboot', 'swiss', 'iplboot']);
+    });
+
+    test('rejects IDs that do not fit the IPLBOOT header', () => {
+      expect(() => registerPayloadProvider(createProvider({ id: 'nintendont-fork' })))
+        .toThrow('must be 1-10 ASCII characters');
+      expect(() => registerPayloadProvider(createProvider({ id: '' })))
+        .toThrow('must be 1-10 ASCII characters');
+    });
+
+    test('rejects archives without an inner file pattern', () => {
+      expect(() => registerPayloadProvider(createProvider({ archiveType: 'zip' })))
+        .toThrow('zip needs an inner file pattern');
+    });
+  });
+
+  describe('extractPayloadExecutable', () => {
+    test('extracts the executable from a ZIP', async () => {
+      const dol = await extractPayloadExecutable(getPayloadProvider('gekkoboot'), await createMockZip());
+
+      expect(new TextDecoder().decode(dol)).toBe('MOCK_DOL_CONTENT_GEKKOBOOT');
+    });
+
+    test('returns DOL assets as they are', async () => {
+      const asset = new Uint8Array([1, 2, 3]);
+
+      expect(await extractPayloadExecutable(createProvider(), asset)).toBe(asset);
+    });
+
+    test('fails when the archive has no matching file', async () => {
+      const provider = createProvider({ archiveType: 'zip', innerFilePattern: /missing\.dol$/ });
+
+      await expect(extractPayloadExecutable(provider, await createMockZip())).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, test, expect } from 'vitest'
+import { calculateCRC32 } from '@/lib/utils/crc32'
+
+describe('CRC-32', () => {
+  test('matches standard check value', () => {
+    // CRC-32 of "123456789" is 0xCBF43926
+    const data = new TextEncoder().encode('123456789')
+    expect(calculateCRC32(data)).toBe(0xCBF43926)
+  })
+
+  test('returns 0 for empty input', () => {
+    expect(calculateCRC32(new Uint8Array(0))).toBe(0)
+  })
+
+  test('returns unsigned value', () => {
+    const data = new Uint8Array(256).fill(0xFF)
+    expect(calculateCRC32(data)).toBeGreaterThanOrEqual(0)
+  })
+
+  test('detects single bit change', () => {
+    const a = new Uint8Array(64)
+    const b = new Uint8Array(64)
+    b[10] = 0x01
+
+    expect(calculateCRC32(a)).not.toBe(calculateCRC32(b))
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest'
+import { calculateMD5 } from '@/lib/utils/md5'
+
+function toHex(digest: Uint8Array): string {
+  return Array.from(digest).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+describe('MD5', () => {
+  test('matches RFC 1321 test vectors', () => {
+    const vectors: [string, string][] = [
+      ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+      ['a', '0cc175b9c0f1b6a831c399e269772661'],
+      ['abc', '900150983cd24fb0d6963f7d28e17f72'],
+      ['message digest', 'f96b697d7cb7938d525a2f31aaf161d0'],
+      ['abcdefghijklmnopqrstuvwxyz', 'c3fcd3d76192e4007dfb496cca67e13b'],
+      [
+        '12345678901234567890123456789012345678901234567890123456789012345678901234567890',
+        '57edf4a22be3c955ac49da2e2107b67a',
+      ],
+    ]
+
+    for (const [input, expected] of vectors) {
+      expect(toHex(calculateMD5(new TextEncoder().encode(input)))).toBe(expected)
+    }
+  })
+
+  test('handles input ending at padding boundary', () => {
+    // 56 bytes forces the length into a second 64-byte chunk
+    const data = new Uint8Array(56).fill(0x61)
+    expect(toHex(calculateMD5(data))).toBe('3b0c8ac703f828b04c6c197006d17218')
+  })
+
+  test('returns 16-byte digest', () => {
+    expect(calculateMD5(new Uint8Array(1000)).byteLength).toBe(16)
+  })
+})